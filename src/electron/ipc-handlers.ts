@@ -1,5 +1,5 @@
 import { BrowserWindow } from "electron";
-import type { ClientEvent, ServerEvent } from "./types.js";
+import type { ClientEvent, ServerEvent, StreamMessage } from "./types.js";
 import { runLetta, type RunnerHandle } from "./libs/runner.js";
 import type { PendingPermission } from "./libs/runtime-state.js";
 import {
@@ -8,6 +8,49 @@ import {
   updateSession,
   deleteSession,
 } from "./libs/runtime-state.js";
+import {
+  listStoredSessions,
+  getStoredSession,
+  saveSession,
+  deleteStoredSession,
+} from "./libs/session-store.js";
+import { fetchConversationHistory, fetchFullConversationHistory } from "./libs/history.js";
+import { generateModelTitle, summarizePrompt } from "./libs/session-title.js";
+import { indexSession, isSessionIndexed, forgetSessionIndex, listPromptHistory, searchSessions } from "./libs/search-index.js";
+import { deleteDraft, listDrafts, listRecentDrafts, saveDraft } from "./libs/drafts.js";
+import { recordRecentCwd } from "./libs/recent-cwds.js";
+import { listModels, withModelSwitchNote } from "./libs/models.js";
+import { fetchRunTokens, getSessionUsage, getUsageReport, recordRunUsage, setModelPrices } from "./libs/usage.js";
+import { deleteWorkspaceProfile, findWorkspaceProfile, listWorkspaceProfiles, saveWorkspaceProfile } from "./libs/workspace-profiles.js";
+import {
+  enqueuePrompt,
+  updateQueuedPrompt,
+  removeQueuedPrompt,
+  reorderQueuedPrompts,
+  takeNextPrompt,
+  clearPromptQueue,
+  getAllPromptQueues,
+  setPromptQueueListener,
+} from "./libs/prompt-queue.js";
+import { listAgents, createNamedAgent, cloneAgent } from "./libs/agents.js";
+import {
+  getConversationAgentId,
+  listMemoryBlocks,
+  updateMemoryBlock,
+  diffMemoryBaseline,
+  updateMemoryBaseline,
+  forgetMemoryBaseline,
+} from "./libs/memory.js";
+import { allowToolInDirectory, DEFAULT_APPROVAL_MODE } from "./libs/permissions.js";
+import {
+  scheduleRun,
+  cancelQueuedRun,
+  clearRunQueue,
+  getRunQueueStatus,
+  hasQueuedRun,
+  setRunLimit,
+  setRunQueueListener,
+} from "./libs/run-queue.js";
 
 const DEBUG = process.env.DEBUG_IPC === "true";
 
@@ -27,9 +70,15 @@ const debug = (msg: string, data?: Record<string, unknown>) => {
   log(msg, data);
 };
 
+// Placeholder id used until the runner reports the Letta conversationId
+const PENDING_SESSION_ID = "pending";
+
 // Track active runner handles
 const runnerHandles = new Map<string, RunnerHandle>();
 
+// Runs ended by session.stop; an interrupted run still reports a result, so its status cannot tell
+const stoppedRuns = new WeakSet<RunnerHandle>();
+
 function broadcast(event: ServerEvent) {
   const payload = JSON.stringify(event);
   const windows = BrowserWindow.getAllWindows();
@@ -38,198 +87,432 @@ function broadcast(event: ServerEvent) {
   }
 }
 
+setRunQueueListener((status) => emit({ type: "runs.status", payload: status }));
+setPromptQueueListener((sessionId, prompts) => emit({ type: "prompts.queue", payload: { sessionId, prompts } }));
+
 function emit(event: ServerEvent) {
-  // Update runtime state on status changes
+  // Update runtime state and the persisted index on status changes
   if (event.type === "session.status") {
-    updateSession(event.payload.sessionId, { status: event.payload.status });
+    const { sessionId, status, title, cwd, agentId, model } = event.payload;
+    updateSession(sessionId, { status });
+    if (sessionId !== PENDING_SESSION_ID) {
+      saveSession(sessionId, { status, title, cwd, agentId, model });
+    }
+  }
+  if (event.type === "stream.message") {
+    trackUsage(event.payload.sessionId, event.payload.message);
+  }
+  if (event.type === "session.deleted") {
+    deleteStoredSession(event.payload.sessionId);
+    forgetSessionIndex(event.payload.sessionId);
+    deleteDraft(event.payload.sessionId);
   }
   broadcast(event);
 }
 
-export async function handleClientEvent(event: ClientEvent) {
-  debug(`handleClientEvent: ${event.type}`, { payload: 'payload' in event ? event.payload : undefined });
-  
-  if (event.type === "session.list") {
-    // TODO: Implement listing via letta-client once we track agentId
-    // For now, return empty - sessions are created via SDK
-    emit({ type: "session.list", payload: { sessions: [] } });
-    return;
-  }
+// Records a run's usage once its result arrives; a failed lookup only loses the token counts
+function trackUsage(sessionId: string, message: StreamMessage): void {
+  if (message.type === "init") updateSession(sessionId, { reportedModel: message.model });
+  if (message.type !== "result" || sessionId === PENDING_SESSION_ID) return;
 
-  if (event.type === "session.history") {
-    // TODO: Implement history fetch via letta-client
-    // For now, return empty - messages stream in real-time
-    const conversationId = event.payload.sessionId;
-    const status = getSession(conversationId)?.status || "idle";
-    emit({
-      type: "session.history",
-      payload: { sessionId: conversationId, status, messages: [] },
+  const stored = getStoredSession(sessionId);
+  const run = {
+    sessionId,
+    agentId: stored?.agentId,
+    cwd: stored?.cwd,
+    model: getSession(sessionId)?.reportedModel ?? stored?.model,
+    durationMs: message.durationMs,
+    reportedCostUsd: message.totalCostUsd,
+  };
+  fetchRunTokens(sessionId, Date.now() - message.durationMs)
+    .catch((error) => {
+      log("usage: token lookup failed", { sessionId, error: String(error) });
+      return null;
+    })
+    .then((tokens) => {
+      recordRunUsage(run, tokens);
+      emit({ type: "usage.session", payload: { sessionId, usage: getSessionUsage(sessionId) } });
+    })
+    .catch((error) => {
+      log("usage: recording failed", { sessionId, error: String(error) });
     });
-    return;
-  }
+}
 
-  if (event.type === "session.start") {
-    debug("session.start: starting new session", { prompt: event.payload.prompt.slice(0, 50), cwd: event.payload.cwd });
-    const pendingPermissions = new Map<string, PendingPermission>();
+// Sessions from before agent tracking only know their conversation; ask Letta once
+async function resolveAgentId(conversationId: string): Promise<string> {
+  const stored = getStoredSession(conversationId);
+  const known = getSession(conversationId)?.agentId ?? stored?.agentId;
+  if (known) return known;
+  const agentId = await getConversationAgentId(conversationId);
+  updateSession(conversationId, { agentId });
+  if (stored) saveSession(conversationId, { agentId });
+  return agentId;
+}
 
-    try {
-      let conversationId: string | null = null;
-      let handle: RunnerHandle | null = null;
-      
-      debug("session.start: calling runLetta");
-      handle = await runLetta({
-        prompt: event.payload.prompt,
-        session: {
-          id: "pending",
-          title: event.payload.title,
-          status: "running",
-          cwd: event.payload.cwd,
-          pendingPermissions,
-        },
-        onEvent: (e) => {
-          // Use conversationId for all events
-          if (conversationId && "sessionId" in e.payload) {
-            const payload = e.payload as { sessionId: string };
-            payload.sessionId = conversationId;
-          }
-          emit(e);
-        },
-        onSessionUpdate: (updates) => {
-          // Called when session is initialized with conversationId
-          debug("session.start: onSessionUpdate called", { updates });
-          if (updates.lettaConversationId && !conversationId) {
-            conversationId = updates.lettaConversationId;
-            debug("session.start: session initialized", { conversationId });
-            
-            createRuntimeSession(conversationId);
-            updateSession(conversationId, { status: "running" });
-            if (handle) runnerHandles.set(conversationId, handle);
-            
-            // Emit session.status to unblock UI - use conversationId as title
-            emit({
-              type: "session.status",
-              payload: { sessionId: conversationId, status: "running", title: conversationId, cwd: event.payload.cwd },
-            });
-            emit({
-              type: "stream.user_prompt",
-              payload: { sessionId: conversationId, prompt: event.payload.prompt },
-            });
-          }
-        },
-      });
-      debug("session.start: runLetta returned handle");
-    } catch (error) {
-      log("session.start: ERROR", { error: String(error) });
-      console.error("Failed to start session:", error);
-      emit({
-        type: "runner.error",
-        payload: { message: String(error) },
-      });
+async function emitMemoryList(conversationId: string): Promise<void> {
+  const agentId = await resolveAgentId(conversationId);
+  const blocks = await listMemoryBlocks(agentId);
+  const changedLabels = diffMemoryBaseline(conversationId, blocks);
+  emit({ type: "memory.list", payload: { sessionId: conversationId, agentId, blocks, changedLabels } });
+}
+
+// Snapshot memory around runs so the panel stays current; failures only cost the highlight
+function refreshMemory(conversationId: string): void {
+  emitMemoryList(conversationId).catch((error) => {
+    log("memory: refresh failed", { conversationId, error: String(error) });
+  });
+}
+
+async function reindexSession(conversationId: string): Promise<void> {
+  indexSession(conversationId, await fetchFullConversationHistory(conversationId));
+}
+
+// Re-read a session's history into the search index after a run; search just misses it on failure
+function refreshSearchIndex(conversationId: string): void {
+  reindexSession(conversationId).catch((error) => {
+    log("search: reindex failed", { conversationId, error: String(error) });
+  });
+}
+
+// Sessions from before search existed are indexed on the first search, one at a time
+let searchBackfill: Promise<void> | null = null;
+
+function ensureSearchIndex(): Promise<void> {
+  searchBackfill ??= (async () => {
+    for (const session of listStoredSessions()) {
+      if (isSessionIndexed(session.id) || isSessionBusy(session.id)) continue;
+      try {
+        await reindexSession(session.id);
+      } catch (error) {
+        log("search: backfill failed", { conversationId: session.id, error: String(error) });
+      }
     }
-    return;
-  }
+  })().finally(() => {
+    searchBackfill = null;
+  });
+  return searchBackfill;
+}
 
-  if (event.type === "session.continue") {
-    const conversationId = event.payload.sessionId;
-    debug("session.continue: continuing session", { conversationId, prompt: event.payload.prompt.slice(0, 50) });
-    
-    let runtimeSession = getSession(conversationId);
+// Swap the quick summary title for the model's once the first run has finished
+function refreshTitle(conversationId: string, summaryTitle: string): void {
+  generateModelTitle(conversationId).then((title) => {
+    // A rename while the model was answering wins
+    if (!title || getStoredSession(conversationId)?.title !== summaryTitle) return;
+    saveSession(conversationId, { title });
+    emit({ type: "session.renamed", payload: { sessionId: conversationId, title } });
+  }).catch((error) => {
+    log("title: generation failed", { conversationId, error: String(error) });
+  });
+}
+
+type StartPayload = Extract<ClientEvent, { type: "session.start" }>["payload"];
+type ContinuePayload = Extract<ClientEvent, { type: "session.continue" }>["payload"];
+
+// Runs a new conversation to completion; scheduled through the run queue
+async function startSession(payload: StartPayload): Promise<void> {
+  debug("session.start: starting new session", { prompt: payload.prompt.slice(0, 50), cwd: payload.cwd });
+  const pendingPermissions = new Map<string, PendingPermission>();
+  const approvedTools = new Set<string>();
+  const permissionMode = payload.permissionMode ?? DEFAULT_APPROVAL_MODE;
+  const { allowedTools, disallowedTools } = payload;
+  const title = payload.title || summarizePrompt(payload.prompt);
+
+  try {
+    let conversationId: string | null = null;
+    let handle: RunnerHandle | null = null;
     
-    if (!runtimeSession) {
-      debug("session.continue: no runtime session found, creating new one");
-      runtimeSession = createRuntimeSession(conversationId);
-    } else {
-      debug("session.continue: found existing runtime session", { status: runtimeSession.status });
+    debug("session.start: calling runLetta");
+    handle = await runLetta({
+      prompt: payload.prompt,
+      attachments: payload.attachments,
+      session: {
+        id: PENDING_SESSION_ID,
+        title,
+        status: "running",
+        cwd: payload.cwd,
+        agentId: payload.agentId,
+        model: payload.model,
+        permissionMode,
+        allowedTools,
+        disallowedTools,
+        profile: findWorkspaceProfile(payload.cwd),
+        pendingPermissions,
+        approvedTools,
+      },
+      onEvent: (e) => {
+        // Use conversationId for all events
+        if (conversationId && "sessionId" in e.payload) {
+          const eventPayload = e.payload as { sessionId: string };
+          eventPayload.sessionId = conversationId;
+        }
+        // A run that fails before it has a conversation still answers the start request
+        if (!conversationId && e.type === "session.status") {
+          e.payload.clientRequestId = payload.clientRequestId;
+        }
+        emit(e);
+      },
+      onSessionUpdate: (updates) => {
+        // Called when session is initialized with conversationId
+        debug("session.start: onSessionUpdate called", { updates });
+        if (updates.lettaConversationId && !conversationId) {
+          conversationId = updates.lettaConversationId;
+          debug("session.start: session initialized", { conversationId });
+          
+          const agentId = updates.agentId ?? payload.agentId;
+          createRuntimeSession(conversationId);
+          updateSession(conversationId, { status: "running", agentId, pendingPermissions, approvedTools });
+          saveSession(conversationId, { title, cwd: payload.cwd, agentId, model: payload.model, permissionMode, allowedTools, disallowedTools });
+          if (handle) runnerHandles.set(conversationId, handle);
+          refreshMemory(conversationId);
+          
+          // Emit session.status to unblock UI
+          emit({
+            type: "session.status",
+            payload: { sessionId: conversationId, status: "running", title, cwd: payload.cwd, agentId, model: payload.model, clientRequestId: payload.clientRequestId },
+          });
+          emit({
+            type: "stream.user_prompt",
+            payload: { sessionId: conversationId, prompt: payload.prompt, attachments: payload.attachments },
+          });
+        }
+      },
+    });
+    debug("session.start: runLetta returned handle");
+    await handle.finished;
+    if (conversationId && runnerHandles.get(conversationId) === handle) {
+      runnerHandles.delete(conversationId);
     }
-
-    updateSession(conversationId, { status: "running" });
+    if (conversationId) {
+      refreshMemory(conversationId);
+      refreshSearchIndex(conversationId);
+      if (!payload.title) refreshTitle(conversationId, title);
+      dispatchQueuedPrompt(conversationId, handle);
+    }
+  } catch (error) {
+    log("session.start: ERROR", { error: String(error) });
+    console.error("Failed to start session:", error);
     emit({
-      type: "session.status",
-      payload: { sessionId: conversationId, status: "running" },
+      type: "runner.error",
+      payload: { message: String(error) },
     });
+  }
+}
 
+// Runs a follow-up prompt to completion; scheduled through the run queue
+async function continueSession(payload: ContinuePayload): Promise<void> {
+  const conversationId = payload.sessionId;
+  debug("session.continue: continuing session", { conversationId, prompt: payload.prompt.slice(0, 50) });
+  
+  let runtimeSession = getSession(conversationId);
+  
+  if (!runtimeSession) {
+    debug("session.continue: no runtime session found, creating new one");
+    runtimeSession = createRuntimeSession(conversationId);
+  } else {
+    debug("session.continue: found existing runtime session", { status: runtimeSession.status });
+  }
+
+  const storedSession = getStoredSession(conversationId);
+  updateSession(conversationId, { status: "running", agentId: storedSession?.agentId });
+  const permissionMode = storedSession?.permissionMode ?? DEFAULT_APPROVAL_MODE;
+  const { allowedTools, disallowedTools } = storedSession ?? {};
+  const { switchedModel } = runtimeSession;
+  runtimeSession.switchedModel = undefined;
+  emit({
+    type: "session.status",
+    payload: { sessionId: conversationId, status: "running" },
+  });
+
+  emit({
+    type: "stream.user_prompt",
+    payload: { sessionId: conversationId, prompt: payload.prompt, attachments: payload.attachments },
+  });
+  refreshMemory(conversationId);
+
+  try {
+    debug("session.continue: calling runLetta", { conversationId });
+    let actualConversationId = conversationId;
+    
+    const handle = await runLetta({
+      prompt: switchedModel ? withModelSwitchNote(payload.prompt, switchedModel) : payload.prompt,
+      attachments: payload.attachments,
+      session: {
+        id: conversationId,
+        title: storedSession?.title ?? conversationId,
+        status: "running",
+        cwd: payload.cwd,
+        agentId: storedSession?.agentId,
+        model: storedSession?.model,
+        permissionMode,
+        allowedTools,
+        disallowedTools,
+        profile: findWorkspaceProfile(payload.cwd ?? storedSession?.cwd),
+        pendingPermissions: runtimeSession.pendingPermissions,
+        approvedTools: runtimeSession.approvedTools,
+      },
+      resumeConversationId: conversationId,
+      onEvent: (e) => {
+        // Update sessionId in events if we got a new conversationId
+        if (actualConversationId !== conversationId && "sessionId" in e.payload) {
+          const eventPayload = e.payload as { sessionId: string };
+          eventPayload.sessionId = actualConversationId;
+        }
+        emit(e);
+      },
+      onSessionUpdate: (updates) => {
+        // If we get a new conversationId (e.g., fallback from invalid ID), update everything
+        if (updates.lettaConversationId && updates.lettaConversationId !== conversationId) {
+          log("session.continue: received new conversationId from runner", { 
+            old: conversationId, 
+            new: updates.lettaConversationId 
+          });
+          actualConversationId = updates.lettaConversationId;
+          
+          // Delete the old invalid session from UI and runtime state
+          deleteSession(conversationId);
+          emit({ type: "session.deleted", payload: { sessionId: conversationId } });
+          
+          // Create new runtime session for the actual conversation
+          createRuntimeSession(actualConversationId);
+          updateSession(actualConversationId, {
+            status: "running",
+            agentId: updates.agentId,
+            pendingPermissions: runtimeSession.pendingPermissions,
+            approvedTools: runtimeSession.approvedTools,
+          });
+          saveSession(actualConversationId, { cwd: payload.cwd, agentId: updates.agentId, permissionMode, allowedTools, disallowedTools });
+          
+          // Notify UI about the new session
+          emit({
+            type: "session.status",
+            payload: { 
+              sessionId: actualConversationId, 
+              status: "running", 
+              title: storedSession?.title ?? summarizePrompt(payload.prompt),
+              cwd: payload.cwd,
+              agentId: updates.agentId,
+            },
+          });
+          // Re-emit the user prompt for the new session
+          emit({
+            type: "stream.user_prompt",
+            payload: { sessionId: actualConversationId, prompt: payload.prompt, attachments: payload.attachments },
+          });
+        }
+      },
+    });
+    debug("session.continue: runLetta returned handle");
+    runnerHandles.set(actualConversationId, handle);
+    await handle.finished;
+    if (runnerHandles.get(actualConversationId) === handle) {
+      runnerHandles.delete(actualConversationId);
+    }
+    refreshMemory(actualConversationId);
+    refreshSearchIndex(actualConversationId);
+    dispatchQueuedPrompt(actualConversationId, handle);
+  } catch (error) {
+    log("session.continue: ERROR", { error: String(error) });
+    updateSession(conversationId, { status: "error" });
     emit({
-      type: "stream.user_prompt",
-      payload: { sessionId: conversationId, prompt: event.payload.prompt },
+      type: "session.status",
+      payload: { sessionId: conversationId, status: "error", error: String(error) },
     });
+  }
+}
+
+function scheduleContinue(payload: ContinuePayload): void {
+  const queued = scheduleRun({
+    sessionId: payload.sessionId,
+    title: payload.prompt.slice(0, 60),
+    cwd: payload.cwd,
+    start: () => continueSession(payload),
+  });
+  if (queued) {
+    debug("session.continue: all run slots busy, queued", { conversationId: payload.sessionId });
+    emit({ type: "session.status", payload: { sessionId: payload.sessionId, status: "queued" } });
+  }
+}
+
+// A run that ended on its own hands over to the next queued prompt; a stopped one does not
+function dispatchQueuedPrompt(conversationId: string, handle: RunnerHandle): void {
+  if (stoppedRuns.has(handle)) return;
+  const next = takeNextPrompt(conversationId);
+  if (!next) return;
+  debug("prompts: dispatching queued prompt", { conversationId, promptId: next.id });
+  scheduleContinue({ sessionId: conversationId, prompt: next.prompt, attachments: next.attachments, cwd: getStoredSession(conversationId)?.cwd });
+}
 
+// A run waiting for a slot may not have runtime state yet; the index and queue still know it
+function isSessionBusy(conversationId: string): boolean {
+  const status = getSession(conversationId)?.status ?? getStoredSession(conversationId)?.status;
+  return status === "running" || status === "queued" || hasQueuedRun(conversationId);
+}
+
+export async function handleClientEvent(event: ClientEvent) {
+  debug(`handleClientEvent: ${event.type}`, { payload: 'payload' in event ? event.payload : undefined });
+  
+  if (event.type === "session.list") {
+    emit({ type: "session.list", payload: { sessions: listStoredSessions() } });
+    emit({ type: "runs.status", payload: getRunQueueStatus() });
+    for (const [sessionId, prompts] of getAllPromptQueues()) {
+      emit({ type: "prompts.queue", payload: { sessionId, prompts } });
+    }
+    return;
+  }
+
+  if (event.type === "session.history") {
+    const { sessionId: conversationId, before } = event.payload;
+    const status = getSession(conversationId)?.status || getStoredSession(conversationId)?.status || "idle";
     try {
-      debug("session.continue: calling runLetta", { conversationId });
-      let actualConversationId = conversationId;
-      
-      const handle = await runLetta({
-        prompt: event.payload.prompt,
-        session: {
-          id: conversationId,
-          title: conversationId,
-          status: "running",
-          cwd: event.payload.cwd,
-          pendingPermissions: runtimeSession.pendingPermissions,
-        },
-        resumeConversationId: conversationId,
-        onEvent: (e) => {
-          // Update sessionId in events if we got a new conversationId
-          if (actualConversationId !== conversationId && "sessionId" in e.payload) {
-            const payload = e.payload as { sessionId: string };
-            payload.sessionId = actualConversationId;
-          }
-          emit(e);
-        },
-        onSessionUpdate: (updates) => {
-          // If we get a new conversationId (e.g., fallback from invalid ID), update everything
-          if (updates.lettaConversationId && updates.lettaConversationId !== conversationId) {
-            log("session.continue: received new conversationId from runner", { 
-              old: conversationId, 
-              new: updates.lettaConversationId 
-            });
-            actualConversationId = updates.lettaConversationId;
-            
-            // Delete the old invalid session from UI and runtime state
-            deleteSession(conversationId);
-            emit({ type: "session.deleted", payload: { sessionId: conversationId } });
-            
-            // Create new runtime session for the actual conversation
-            createRuntimeSession(actualConversationId);
-            updateSession(actualConversationId, { status: "running" });
-            
-            // Notify UI about the new session
-            emit({
-              type: "session.status",
-              payload: { 
-                sessionId: actualConversationId, 
-                status: "running", 
-                title: actualConversationId, 
-                cwd: event.payload.cwd 
-              },
-            });
-            // Re-emit the user prompt for the new session
-            emit({
-              type: "stream.user_prompt",
-              payload: { sessionId: actualConversationId, prompt: event.payload.prompt },
-            });
-          }
-        },
+      const page = await fetchConversationHistory(conversationId, { before });
+      debug("session.history: fetched page", { conversationId, before, count: page.messages.length, hasMore: page.hasMore });
+      emit({
+        type: "session.history",
+        payload: { sessionId: conversationId, status, messages: page.messages, before, cursor: page.cursor, hasMore: page.hasMore },
       });
-      debug("session.continue: runLetta returned handle");
-      runnerHandles.set(actualConversationId, handle);
     } catch (error) {
-      log("session.continue: ERROR", { error: String(error) });
-      updateSession(conversationId, { status: "error" });
+      log("session.history: ERROR", { conversationId, error: String(error) });
+      // Still answer so the UI stops waiting on this page
       emit({
-        type: "session.status",
-        payload: { sessionId: conversationId, status: "error", error: String(error) },
+        type: "session.history",
+        payload: { sessionId: conversationId, status, messages: [], before, hasMore: false },
+      });
+      emit({
+        type: "runner.error",
+        payload: { sessionId: conversationId, message: `Failed to load history: ${String(error)}` },
       });
     }
     return;
   }
 
+  if (event.type === "session.start") {
+    const { payload } = event;
+    if (payload.cwd?.trim()) recordRecentCwd(payload.cwd);
+    const queued = scheduleRun({
+      title: payload.title || summarizePrompt(payload.prompt),
+      cwd: payload.cwd,
+      start: () => startSession(payload),
+    });
+    if (queued) debug("session.start: all run slots busy, queued");
+    return;
+  }
+
+  if (event.type === "session.continue") {
+    scheduleContinue(event.payload);
+    return;
+  }
+
   if (event.type === "session.stop") {
     const conversationId = event.payload.sessionId;
     debug("session.stop: stopping session", { conversationId });
+    if (cancelQueuedRun({ sessionId: conversationId })) {
+      debug("session.stop: removed queued run");
+    }
     const handle = runnerHandles.get(conversationId);
     if (handle) {
       debug("session.stop: aborting handle");
-      handle.abort();
+      stoppedRuns.add(handle);
+      handle.abort().catch((error) => log("session.stop: abort failed", { conversationId, error: String(error) }));
       runnerHandles.delete(conversationId);
     } else {
       debug("session.stop: no handle found");
@@ -244,12 +527,15 @@ export async function handleClientEvent(event: ClientEvent) {
 
   if (event.type === "session.delete") {
     const conversationId = event.payload.sessionId;
+    cancelQueuedRun({ sessionId: conversationId });
     const handle = runnerHandles.get(conversationId);
     if (handle) {
-      handle.abort();
+      handle.abort().catch((error) => log("session.delete: abort failed", { conversationId, error: String(error) }));
       runnerHandles.delete(conversationId);
     }
     deleteSession(conversationId);
+    forgetMemoryBaseline(conversationId);
+    clearPromptQueue(conversationId);
     
     // Note: Letta client may not have a delete method for conversations
     // The conversation will remain in Letta but be removed from our UI
@@ -258,21 +544,227 @@ export async function handleClientEvent(event: ClientEvent) {
     return;
   }
 
+  if (event.type === "session.rename") {
+    const { sessionId: conversationId, title } = event.payload;
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    saveSession(conversationId, { title: trimmed });
+    emit({ type: "session.renamed", payload: { sessionId: conversationId, title: trimmed } });
+    return;
+  }
+
+  if (event.type === "session.update") {
+    const { sessionId: conversationId, ...updates } = event.payload;
+    const existing = getStoredSession(conversationId);
+    if (!existing) return;
+    if (updates.tags) {
+      updates.tags = Array.from(new Set(updates.tags.map((tag) => tag.trim()).filter(Boolean)));
+    }
+    // Organizing a session is not activity, so it keeps its place in the list
+    const saved = saveSession(conversationId, { ...updates, updatedAt: existing.updatedAt });
+    emit({
+      type: "session.updated",
+      payload: { sessionId: conversationId, pinned: saved.pinned, archived: saved.archived, tags: saved.tags },
+    });
+    return;
+  }
+
   if (event.type === "permission.response") {
     const session = getSession(event.payload.sessionId);
     if (!session) return;
 
-    const pending = session.pendingPermissions.get(event.payload.toolUseId);
+    const { toolUseId, result, scope } = event.payload;
+    const pending = session.pendingPermissions.get(toolUseId);
     if (pending) {
-      pending.resolve(event.payload.result);
+      if (result.behavior === "allow" && scope && scope !== "once") {
+        const cwd = getStoredSession(event.payload.sessionId)?.cwd;
+        if (scope === "directory" && cwd) {
+          allowToolInDirectory(cwd, pending.toolName);
+        } else {
+          session.approvedTools.add(pending.toolName);
+        }
+        debug("permission.response: remembered approval", { toolName: pending.toolName, scope, cwd });
+      }
+      pending.resolve(result);
+    }
+    return;
+  }
+
+  if (event.type === "runs.setLimit") {
+    setRunLimit(event.payload.limit);
+    return;
+  }
+
+  if (event.type === "agents.list" || event.type === "agents.create" || event.type === "agents.clone") {
+    await handleAgentEvent(event);
+    return;
+  }
+
+  if (event.type === "drafts.list") {
+    emit({ type: "drafts.list", payload: { drafts: listDrafts() } });
+    return;
+  }
+
+  if (event.type === "drafts.save") {
+    saveDraft(event.payload.sessionId, event.payload.text);
+    return;
+  }
+
+  // History comes from the search index, so sessions not yet indexed are read first
+  if (event.type === "prompts.history") {
+    try {
+      // Only sessions already indexed count; backfilling fetches every history and is left to search
+      const prompts = [...new Set([...listPromptHistory(), ...listRecentDrafts()])];
+      emit({ type: "prompts.history", payload: { prompts } });
+    } catch (error) {
+      log("prompts.history: ERROR", { error: String(error) });
+    }
+    return;
+  }
+
+  if (event.type === "profiles.list" || event.type === "profiles.save" || event.type === "profiles.delete") {
+    if (event.type === "profiles.save") saveWorkspaceProfile(event.payload.profile);
+    if (event.type === "profiles.delete") deleteWorkspaceProfile(event.payload.cwd);
+    emit({ type: "profiles.list", payload: { profiles: listWorkspaceProfiles() } });
+    return;
+  }
+
+  if (event.type === "session.setModel") {
+    const { sessionId: conversationId, model } = event.payload;
+    const stored = getStoredSession(conversationId);
+    // The running CLI keeps its model, so switches wait until the run is over
+    if (!stored || stored.model === model || isSessionBusy(conversationId)) return;
+    const runtimeSession = getSession(conversationId) ?? createRuntimeSession(conversationId);
+    runtimeSession.switchedModel = model;
+    saveSession(conversationId, { model, updatedAt: stored.updatedAt });
+    emit({ type: "stream.message", payload: { sessionId: conversationId, message: { type: "model_change", model } } });
+    return;
+  }
+
+  if (event.type === "usage.session") {
+    const { sessionId } = event.payload;
+    emit({ type: "usage.session", payload: { sessionId, usage: getSessionUsage(sessionId) } });
+    return;
+  }
+
+  if (event.type === "usage.report" || event.type === "usage.setPrices") {
+    if (event.type === "usage.setPrices") setModelPrices(event.payload.prices);
+    emit({ type: "usage.report", payload: { report: getUsageReport() } });
+    return;
+  }
+
+  if (event.type === "models.list") {
+    try {
+      emit({ type: "models.list", payload: { models: await listModels() } });
+    } catch (error) {
+      log("models.list: ERROR", { error: String(error) });
+      emit({ type: "runner.error", payload: { message: `Could not load models: ${String(error)}` } });
+    }
+    return;
+  }
+
+  if (event.type === "prompts.enqueue") {
+    const { sessionId: conversationId, prompt, attachments } = event.payload;
+    if (isSessionBusy(conversationId)) {
+      enqueuePrompt(conversationId, prompt, attachments);
+    } else {
+      // The run ended before the prompt arrived; nothing to wait for
+      scheduleContinue({ sessionId: conversationId, prompt, attachments, cwd: getStoredSession(conversationId)?.cwd });
+    }
+    return;
+  }
+
+  if (event.type === "prompts.update") {
+    updateQueuedPrompt(event.payload.sessionId, event.payload.promptId, event.payload.prompt);
+    return;
+  }
+
+  if (event.type === "prompts.remove") {
+    removeQueuedPrompt(event.payload.sessionId, event.payload.promptId);
+    return;
+  }
+
+  if (event.type === "prompts.reorder") {
+    reorderQueuedPrompts(event.payload.sessionId, event.payload.promptIds);
+    return;
+  }
+
+  if (event.type === "memory.list" || event.type === "memory.update") {
+    await handleMemoryEvent(event);
+    return;
+  }
+
+  if (event.type === "search.query") {
+    const { query } = event.payload;
+    try {
+      await ensureSearchIndex();
+      emit({ type: "search.results", payload: { query, results: searchSessions(query) } });
+    } catch (error) {
+      log("search.query: ERROR", { error: String(error) });
+      emit({ type: "search.results", payload: { query, results: [] } });
+      emit({ type: "runner.error", payload: { message: `Search failed: ${String(error)}` } });
+    }
+    return;
+  }
+
+  if (event.type === "runs.cancel") {
+    const cancelled = cancelQueuedRun({ runId: event.payload.runId });
+    if (cancelled?.sessionId) {
+      emit({ type: "session.status", payload: { sessionId: cancelled.sessionId, status: "idle" } });
     }
     return;
   }
 }
 
-export function cleanupAllSessions(): void {
-  for (const [, handle] of runnerHandles) {
-    handle.abort();
+// Agent management answers with agents.list / agents.created, or runner.error on failure
+async function handleAgentEvent(event: Extract<ClientEvent, { type: "agents.list" | "agents.create" | "agents.clone" }>) {
+  try {
+    if (event.type === "agents.list") {
+      emit({ type: "agents.list", payload: { agents: await listAgents() } });
+      return;
+    }
+
+    const agent = event.type === "agents.create"
+      ? await createNamedAgent(event.payload)
+      : await cloneAgent(event.payload.agentId, event.payload.name);
+    debug(`${event.type}: created agent`, { agentId: agent.id, name: agent.name });
+    emit({ type: "agents.created", payload: { agent } });
+    emit({ type: "agents.list", payload: { agents: await listAgents() } });
+  } catch (error) {
+    log(`${event.type}: ERROR`, { error: String(error) });
+    emit({
+      type: "runner.error",
+      payload: { message: `Agent request failed: ${String(error)}` },
+    });
   }
+}
+
+async function handleMemoryEvent(event: Extract<ClientEvent, { type: "memory.list" | "memory.update" }>) {
+  const conversationId = event.payload.sessionId;
+  try {
+    if (event.type === "memory.update") {
+      const agentId = await resolveAgentId(conversationId);
+      const block = await updateMemoryBlock(agentId, event.payload.label, event.payload.value);
+      debug("memory.update: saved block", { conversationId, label: block.label });
+      updateMemoryBaseline(conversationId, block);
+    }
+    await emitMemoryList(conversationId);
+  } catch (error) {
+    log(`${event.type}: ERROR`, { conversationId, error: String(error) });
+    emit({
+      type: "runner.error",
+      payload: { sessionId: conversationId, message: `Memory request failed: ${String(error)}` },
+    });
+  }
+}
+
+// Resolves once every running session has been asked to stop
+export async function cleanupAllSessions(): Promise<void> {
+  clearRunQueue();
+  clearPromptQueue();
+  const handles = Array.from(runnerHandles.entries());
   runnerHandles.clear();
+  await Promise.all(handles.map(([conversationId, handle]) =>
+    handle.abort().catch((error) => log("cleanup: abort failed", { conversationId, error: String(error) }))
+  ));
 }
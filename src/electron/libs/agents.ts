@@ -0,0 +1,71 @@
+/**
+ * Agent discovery and management on the configured Letta server.
+ * Sessions run on one of these agents; new ones are created through the
+ * Letta Code SDK so they get the same tools and memory layout as the CLI.
+ */
+
+import { createAgent } from "@letta-ai/letta-code-sdk";
+import type { AgentState } from "@letta-ai/letta-client/resources/agents/agents";
+import type { AgentSummary } from "../types.js";
+import { getLettaClient } from "./letta-client.js";
+
+const AGENT_LIST_LIMIT = 100;
+
+function toTimestamp(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function toAgentSummary(agent: AgentState): AgentSummary {
+  return {
+    id: agent.id,
+    name: agent.name,
+    model: agent.model ?? agent.llm_config?.model ?? undefined,
+    lastUsedAt: toTimestamp(agent.last_run_completion) ?? toTimestamp(agent.updated_at),
+  };
+}
+
+/**
+ * Agents on the server, most recently used first.
+ */
+export async function listAgents(): Promise<AgentSummary[]> {
+  const page = await getLettaClient().agents.list({ limit: AGENT_LIST_LIMIT });
+  return page
+    .getPaginatedItems()
+    .map(toAgentSummary)
+    .sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0));
+}
+
+export async function createNamedAgent(options: { name: string; persona?: string; model?: string }): Promise<AgentSummary> {
+  const agentId = await createAgent({
+    model: options.model,
+    persona: options.persona || undefined,
+  });
+  const agent = await getLettaClient().agents.update(agentId, { name: options.name });
+  return toAgentSummary(agent);
+}
+
+/**
+ * Create a new agent with a copy of another agent's model and memory blocks.
+ * The copy starts with no conversations.
+ */
+export async function cloneAgent(sourceId: string, name: string): Promise<AgentSummary> {
+  const client = getLettaClient();
+  const source = await client.agents.retrieve(sourceId, { include: ["agent.blocks"] });
+  const memory = source.blocks
+    .filter((block) => block.label)
+    .map((block) => ({
+      label: block.label as string,
+      value: block.value,
+      limit: block.limit,
+      description: block.description,
+    }));
+
+  const agentId = await createAgent({
+    model: source.model ?? undefined,
+    memory,
+  });
+  const agent = await client.agents.update(agentId, { name });
+  return toAgentSummary(agent);
+}
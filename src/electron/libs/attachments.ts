@@ -0,0 +1,86 @@
+/**
+ * Prompt attachments. Images go to the agent as multimodal content blocks; other
+ * files as paths it can read with its tools, listed in a note with the prompt.
+ */
+
+import type { SendMessage } from "@letta-ai/letta-code-sdk";
+import { app } from "electron";
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import { basename, isAbsolute, join, relative } from "path";
+import type { PromptAttachment } from "../types.js";
+
+// What the SDK accepts as image content
+const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const;
+type ImageMediaType = typeof IMAGE_MEDIA_TYPES[number];
+// Model providers reject larger images
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const ATTACHMENT_NOTE_HEADER = "The user attached these files; read them with your tools:";
+const ATTACHMENT_NOTE_PATTERN = /<system-reminder>\s*The user attached these files; read them with your tools:\n([\s\S]*?)<\/system-reminder>/;
+
+function isImage(attachment: PromptAttachment): attachment is PromptAttachment & { data: string; mediaType: ImageMediaType } {
+  return !!attachment.data && (IMAGE_MEDIA_TYPES as readonly string[]).includes(attachment.mediaType);
+}
+
+// Matches the renderer's message for an image it refuses to attach
+function oversizedImageError(attachment: PromptAttachment): Error {
+  return new Error(`${attachment.name} is over the ${(MAX_IMAGE_BYTES / 1024 / 1024).toFixed(1)} MB image limit`);
+}
+
+// Images picked from the working directory come by path; larger ones stay files the agent can open.
+// Pasted images carry their data and have no file to fall back to, so larger ones are refused.
+async function loadImage(attachment: PromptAttachment): Promise<PromptAttachment> {
+  if (isImage(attachment) && Buffer.byteLength(attachment.data, "base64") > MAX_IMAGE_BYTES) throw oversizedImageError(attachment);
+  if (attachment.data || !attachment.path || !(IMAGE_MEDIA_TYPES as readonly string[]).includes(attachment.mediaType)) return attachment;
+  if ((await stat(attachment.path)).size > MAX_IMAGE_BYTES) return attachment;
+  return { ...attachment, data: (await readFile(attachment.path)).toString("base64") };
+}
+
+// Pasted files have no path of their own, so they are written to the app's data directory
+async function saveAttachment(attachment: PromptAttachment): Promise<string> {
+  const directory = join(app.getPath("userData"), "attachments", attachment.id);
+  await mkdir(directory, { recursive: true });
+  const path = join(directory, basename(attachment.name) || "attachment");
+  await writeFile(path, Buffer.from(attachment.data ?? "", "base64"));
+  return path;
+}
+
+// Files inside the working directory are referred to relative to it, like the agent's own paths
+function displayPath(path: string, cwd: string | undefined): string {
+  if (!cwd) return path;
+  const relativePath = relative(cwd, path);
+  return relativePath && !relativePath.startsWith("..") && !isAbsolute(relativePath) ? relativePath : path;
+}
+
+/**
+ * The prompt as the SDK should send it: plain text, or text followed by image blocks.
+ */
+export async function toSendMessage(text: string, attachments: PromptAttachment[] | undefined, cwd: string | undefined): Promise<SendMessage> {
+  if (!attachments?.length) return text;
+  const loaded = await Promise.all(attachments.map(loadImage));
+  const images = loaded.filter(isImage);
+  const files = loaded.filter((attachment) => !isImage(attachment));
+
+  const paths = await Promise.all(files.map((file) => file.path ?? saveAttachment(file)));
+  const note = paths.length > 0
+    ? `<system-reminder>\n${ATTACHMENT_NOTE_HEADER}\n${paths.map((path) => `- ${displayPath(path, cwd)}`).join("\n")}\n</system-reminder>\n\n`
+    : "";
+  if (images.length === 0) return `${note}${text}`;
+
+  return [
+    { type: "text", text: `${note}${text}` },
+    ...images.map((image) => ({
+      type: "image" as const,
+      source: { type: "base64" as const, media_type: image.mediaType, data: image.data },
+    })),
+  ];
+}
+
+// File attachments listed in a stored user message, if it carries the note
+export function parseAttachmentNote(text: string): PromptAttachment[] {
+  const list = ATTACHMENT_NOTE_PATTERN.exec(text)?.[1] ?? "";
+  return list.split("\n").flatMap((line) => {
+    const path = line.replace(/^- /, "").trim();
+    return line.startsWith("- ") && path ? [{ id: path, name: basename(path), mediaType: "", path }] : [];
+  });
+}
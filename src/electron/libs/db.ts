@@ -0,0 +1,118 @@
+/**
+ * Local SQLite database in the Electron userData directory.
+ * Holds Cowork's own metadata; conversations themselves live on the Letta server.
+ */
+
+import Database from "better-sqlite3";
+import { app } from "electron";
+import { join } from "path";
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      status TEXT NOT NULL,
+      cwd TEXT,
+      letta_conversation_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS tool_approvals (
+      cwd TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (cwd, tool_name)
+    );
+
+    CREATE TABLE IF NOT EXISTS recent_cwds (
+      path TEXT PRIMARY KEY,
+      last_used_at INTEGER NOT NULL,
+      use_count INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS workspace_profiles (
+      cwd TEXT PRIMARY KEY,
+      profile TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS usage_records (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      agent_id TEXT,
+      cwd TEXT,
+      model TEXT,
+      run_ids TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL,
+      completion_tokens INTEGER NOT NULL,
+      reasoning_tokens INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      reported_cost_usd REAL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS usage_records_session ON usage_records (session_id);
+    CREATE INDEX IF NOT EXISTS usage_records_created ON usage_records (created_at);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+      session_id UNINDEXED,
+      position UNINDEXED,
+      kind UNINDEXED,
+      text
+    );
+
+    CREATE TABLE IF NOT EXISTS prompt_drafts (
+      session_id TEXT PRIMARY KEY,
+      text TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS search_indexed_sessions (
+      session_id TEXT PRIMARY KEY,
+      indexed_at INTEGER NOT NULL
+    );
+  `);
+
+  ensureColumn(database, "sessions", "permission_mode", "TEXT");
+  ensureColumn(database, "sessions", "allowed_tools", "TEXT");
+  ensureColumn(database, "sessions", "disallowed_tools", "TEXT");
+  ensureColumn(database, "sessions", "agent_id", "TEXT");
+  ensureColumn(database, "sessions", "pinned", "INTEGER");
+  ensureColumn(database, "sessions", "archived", "INTEGER");
+  ensureColumn(database, "sessions", "tags", "TEXT");
+  ensureColumn(database, "sessions", "model", "TEXT");
+}
+
+// Adds a column to a table created by an older version of the app
+function ensureColumn(database: Database.Database, table: string, column: string, definition: string): void {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === column)) return;
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+export function getDb(): Database.Database {
+  if (db) return db;
+
+  db = new Database(join(app.getPath("userData"), "sessions.db"));
+  db.pragma("journal_mode = WAL");
+  migrate(db);
+
+  // Nothing can still be running after a restart or crash
+  db.prepare("UPDATE sessions SET status = 'idle' WHERE status IN ('running', 'queued')").run();
+
+  return db;
+}
+
+export function closeDb(): void {
+  db?.close();
+  db = null;
+}
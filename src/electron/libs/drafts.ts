@@ -0,0 +1,37 @@
+/**
+ * Unsent prompt text for each session, so drafts survive switching sessions and restarts.
+ */
+
+import { getDb } from "./db.js";
+
+type DraftRow = {
+  session_id: string;
+  text: string;
+};
+
+export function listDrafts(): Record<string, string> {
+  const rows = getDb().prepare("SELECT session_id, text FROM prompt_drafts").all() as DraftRow[];
+  return Object.fromEntries(rows.map((row) => [row.session_id, row.text]));
+}
+
+// Draft texts, most recently edited first
+export function listRecentDrafts(): string[] {
+  const rows = getDb().prepare("SELECT text FROM prompt_drafts ORDER BY updated_at DESC").all() as Array<Pick<DraftRow, "text">>;
+  return rows.map((row) => row.text);
+}
+
+// An empty draft removes the row
+export function saveDraft(sessionId: string, text: string): void {
+  if (!text.trim()) {
+    deleteDraft(sessionId);
+    return;
+  }
+  getDb().prepare(`
+    INSERT INTO prompt_drafts (session_id, text, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET text = excluded.text, updated_at = excluded.updated_at
+  `).run(sessionId, text, Date.now());
+}
+
+export function deleteDraft(sessionId: string): void {
+  getDb().prepare("DELETE FROM prompt_drafts WHERE session_id = ?").run(sessionId);
+}
@@ -0,0 +1,217 @@
+/**
+ * Files under a working directory, offered when a prompt mentions one with `@`.
+ * Git repositories are listed by git; other directories are walked, honoring any
+ * .gitignore files. Indexed directories are watched so new files show up.
+ */
+
+import { execFile } from "child_process";
+import { watch, type Dirent, type FSWatcher } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { basename, join, resolve } from "path";
+
+const MAX_FILES = 20000;
+const MAX_WATCHED_DIRECTORIES = 200;
+// One recursive watch covers a tree on macOS and Windows; elsewhere Node would add a watch per directory
+const RECURSIVE_WATCH = process.platform === "darwin" || process.platform === "win32";
+// Without it only top-level directories are watched, and a list this old is rebuilt when asked for
+const STALE_AFTER_MS = 30000;
+// Directories indexed at once; the least recently used stops being watched
+const MAX_INDEXES = 4;
+// Checkouts and installs touch many files; rebuild once they settle
+const REBUILD_DELAY_MS = 300;
+const ALWAYS_IGNORED = new Set([".git", "node_modules"]);
+
+type FileIndex = {
+  // Paths relative to the directory, with forward slashes
+  files: Promise<string[]>;
+  watchers: FSWatcher[];
+  builtAt: number;
+  rebuildTimer?: NodeJS.Timeout;
+  lastUsedAt: number;
+};
+
+type IgnoreRule = {
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+};
+
+const indexes = new Map<string, FileIndex>();
+
+function globToRegExp(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+// Rules of a .gitignore in `base` ("" for the root, else "dir/"), in file order
+function parseGitignore(text: string, base: string): IgnoreRule[] {
+  return text.split(/\r?\n/).flatMap((line) => {
+    let glob = line.trim();
+    if (!glob || glob.startsWith("#")) return [];
+    const negate = glob.startsWith("!");
+    if (negate) glob = glob.slice(1);
+    const directoryOnly = glob.endsWith("/");
+    if (directoryOnly) glob = glob.slice(0, -1);
+    // A slash anywhere but the end ties the pattern to this directory
+    const anchored = glob.includes("/");
+    if (glob.startsWith("/")) glob = glob.slice(1);
+    if (!glob) return [];
+    const prefix = base.replace(/[.+^${}()|[\]\\]/g, "\\$&") + (anchored ? "" : "(?:.*/)?");
+    return [{ pattern: new RegExp(`^${prefix}${globToRegExp(glob)}$`), negate, directoryOnly }];
+  });
+}
+
+// The last matching rule decides, as in git
+function isIgnored(path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.pattern.test(path)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+function listGitFiles(cwd: string): Promise<string[] | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+      { cwd, maxBuffer: 64 * 1024 * 1024, timeout: 10000 },
+      (error, stdout) => resolve(error ? null : stdout.split("\0").filter(Boolean)),
+    );
+  });
+}
+
+async function walkFiles(cwd: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const visit = async (directory: string, rules: IgnoreRule[]): Promise<void> => {
+    const entries = await readdir(join(cwd, directory), { withFileTypes: true }).catch((): Dirent[] => []);
+    const hasGitignore = entries.some((entry) => entry.isFile() && entry.name === ".gitignore");
+    const gitignore = hasGitignore ? await readFile(join(cwd, directory, ".gitignore"), "utf8").catch(() => "") : "";
+    const scopedRules = gitignore ? [...rules, ...parseGitignore(gitignore, directory ? `${directory}/` : "")] : rules;
+
+    for (const entry of entries) {
+      if (files.length >= MAX_FILES) return;
+      const path = directory ? `${directory}/${entry.name}` : entry.name;
+      if (ALWAYS_IGNORED.has(entry.name) || isIgnored(path, entry.isDirectory(), scopedRules)) continue;
+      if (entry.isDirectory()) await visit(path, scopedRules);
+      else if (entry.isFile()) files.push(path);
+    }
+  };
+
+  await visit("", []);
+  return files;
+}
+
+async function listFiles(cwd: string): Promise<string[]> {
+  const files = (await listGitFiles(cwd)) ?? (await walkFiles(cwd));
+  return files.slice(0, MAX_FILES).sort();
+}
+
+function closeWatchers(index: FileIndex): void {
+  for (const watcher of index.watchers) watcher.close();
+  index.watchers = [];
+}
+
+function isAlwaysIgnored(path: string): boolean {
+  return path.split(/[\\/]/).some((segment) => ALWAYS_IGNORED.has(segment));
+}
+
+// The root and the top-level directories holding listed files, so ignored trees cost nothing
+function topLevelDirectories(files: string[]): string[] {
+  const directories = new Set([""]);
+  for (const file of files) {
+    if (directories.size >= MAX_WATCHED_DIRECTORIES) break;
+    const separator = file.indexOf("/");
+    if (separator > 0) directories.add(file.slice(0, separator));
+  }
+  return [...directories];
+}
+
+function watchDirectories(cwd: string, index: FileIndex, files: string[]): void {
+  closeWatchers(index);
+  const directories = RECURSIVE_WATCH ? [""] : topLevelDirectories(files);
+
+  for (const directory of directories) {
+    try {
+      const watcher = watch(join(cwd, directory), { recursive: RECURSIVE_WATCH }, (eventType, filename) => {
+        if (filename && isAlwaysIgnored(filename)) return;
+        // Edits to existing files do not change the list
+        if (eventType === "rename" || (filename && basename(filename) === ".gitignore")) scheduleRebuild(cwd, index);
+      });
+      watcher.on("error", () => scheduleRebuild(cwd, index));
+      index.watchers.push(watcher);
+    } catch {
+      // The directory went away since it was listed; the parent's watcher notices
+    }
+  }
+}
+
+function buildIndex(cwd: string, index: FileIndex): void {
+  index.builtAt = Date.now();
+  index.files = listFiles(cwd);
+  index.files.then((files) => {
+    if (indexes.get(cwd) === index) watchDirectories(cwd, index, files);
+  });
+}
+
+function scheduleRebuild(cwd: string, index: FileIndex): void {
+  clearTimeout(index.rebuildTimer);
+  index.rebuildTimer = setTimeout(() => buildIndex(cwd, index), REBUILD_DELAY_MS);
+}
+
+function evictIndexes(): void {
+  while (indexes.size > MAX_INDEXES) {
+    const [oldestCwd, oldest] = [...indexes.entries()].reduce((a, b) => (b[1].lastUsedAt < a[1].lastUsedAt ? b : a));
+    clearTimeout(oldest.rebuildTimer);
+    closeWatchers(oldest);
+    indexes.delete(oldestCwd);
+  }
+}
+
+/**
+ * Files under the directory, relative to it. The first call for a directory lists
+ * it and starts watching; later calls reuse the list until something changes or,
+ * where only the top level is watched, until it gets old.
+ */
+export function listWorkspaceFiles(cwd: string): Promise<string[]> {
+  const root = resolve(cwd);
+  let index = indexes.get(root);
+  if (!index) {
+    index = { files: Promise.resolve([]), watchers: [], builtAt: 0, lastUsedAt: 0 };
+    indexes.set(root, index);
+    buildIndex(root, index);
+  } else if (!RECURSIVE_WATCH && Date.now() - index.builtAt > STALE_AFTER_MS) {
+    // Changes below the top level go unseen by the watchers
+    clearTimeout(index.rebuildTimer);
+    buildIndex(root, index);
+  }
+  index.lastUsedAt = Date.now();
+  evictIndexes();
+  return index.files;
+}
+
+export function closeFileIndexes(): void {
+  for (const index of indexes.values()) {
+    clearTimeout(index.rebuildTimer);
+    closeWatchers(index);
+  }
+  indexes.clear();
+}
@@ -0,0 +1,29 @@
+/**
+ * On-disk content of files the agent is about to overwrite,
+ * so Write calls can be shown as a diff instead of a bare file path.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { isAbsolute, resolve } from "path";
+
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+
+export function resolveToolPath(cwd: string, filePath: string): string {
+  return isAbsolute(filePath) ? filePath : resolve(cwd, filePath);
+}
+
+/**
+ * Current content of a file.
+ * Resolves to null when the file does not exist yet, and to undefined when it
+ * cannot be shown (too large, binary, unreadable).
+ */
+export async function readFileSnapshot(path: string): Promise<string | null | undefined> {
+  try {
+    const info = await stat(path);
+    if (!info.isFile() || info.size > MAX_SNAPSHOT_BYTES) return undefined;
+    const content = await readFile(path, "utf8");
+    return content.includes("\u0000") ? undefined : content;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+  }
+}
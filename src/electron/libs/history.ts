@@ -0,0 +1,138 @@
+/**
+ * Conversation history hydration from the Letta server.
+ * Maps stored Letta messages onto the StreamMessage union the UI renders.
+ */
+
+import type { Message as LettaMessage, UserMessage } from "@letta-ai/letta-client/resources/agents/messages";
+import type { PromptAttachment, StreamMessage } from "../types.js";
+import { getLettaClient } from "./letta-client.js";
+import { parseModelSwitch } from "./models.js";
+import { parseAttachmentNote } from "./attachments.js";
+
+export const HISTORY_PAGE_SIZE = 50;
+
+export type HistoryPage = {
+  messages: StreamMessage[];
+  // Pass back as `before` to fetch the next older page
+  cursor?: string;
+  hasMore: boolean;
+};
+
+// Letta Code injects these into user turns; they are not part of what the user typed
+const SYSTEM_REMINDER_PATTERN = /<system-reminder>[\s\S]*?<\/system-reminder>/g;
+
+function textFromContent(content: string | Array<{ type?: string; text?: string }>): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+// Images the server kept the data of; URL images are left out
+function imageAttachments(content: UserMessage["content"]): PromptAttachment[] {
+  if (typeof content === "string") return [];
+  return content.flatMap((part, index) => {
+    if (part.type !== "image" || !("source" in part) || !("data" in part.source) || !part.source.data) return [];
+    const mediaType = part.source.media_type ?? "image/png";
+    return [{ id: `image-${index}`, name: `Image ${index}`, mediaType, data: part.source.data }];
+  });
+}
+
+function parseToolArguments(args: string | null | undefined): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === "object" ? parsed : { value: parsed };
+  } catch {
+    return { arguments: args };
+  }
+}
+
+// A user message can also carry a model switch, which shows as its own marker before the prompt
+export function toStreamMessages(message: LettaMessage): StreamMessage[] {
+  switch (message.message_type) {
+    case "user_message": {
+      const text = textFromContent(message.content);
+      const model = parseModelSwitch(text);
+      const prompt = text.replace(SYSTEM_REMINDER_PATTERN, "").trim();
+      const attachments = [...parseAttachmentNote(text), ...imageAttachments(message.content)];
+      return [
+        ...(model ? [{ type: "model_change" as const, model }] : []),
+        ...(prompt || attachments.length > 0
+          ? [{ type: "user_prompt" as const, prompt, ...(attachments.length > 0 ? { attachments } : {}) }]
+          : []),
+      ];
+    }
+    case "assistant_message":
+      return [{ type: "assistant", content: textFromContent(message.content), uuid: message.id }];
+    case "reasoning_message":
+      return [{ type: "reasoning", content: message.reasoning, uuid: message.id }];
+    case "tool_call_message":
+    case "approval_request_message": {
+      const toolCall = message.tool_call;
+      return [{
+        type: "tool_call",
+        toolCallId: toolCall.tool_call_id ?? message.id,
+        toolName: toolCall.name ?? "unknown",
+        toolInput: parseToolArguments(toolCall.arguments),
+        uuid: message.id,
+      }];
+    }
+    case "tool_return_message":
+      return [{
+        type: "tool_result",
+        toolCallId: message.tool_call_id,
+        content: message.tool_return,
+        isError: message.status === "error",
+        uuid: message.id,
+      }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Fetch one page of a conversation, newest first on the wire, returned oldest first.
+ */
+export async function fetchConversationHistory(
+  conversationId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<HistoryPage> {
+  const limit = options.limit ?? HISTORY_PAGE_SIZE;
+  const page = await getLettaClient().conversations.messages.list(conversationId, {
+    before: options.before,
+    limit,
+    order: "desc",
+  });
+
+  const raw = page.getPaginatedItems();
+  const messages = raw
+    .slice()
+    .reverse()
+    .flatMap(toStreamMessages);
+
+  return {
+    messages,
+    cursor: raw.length > 0 ? raw[raw.length - 1].id : undefined,
+    hasMore: raw.length === limit,
+  };
+}
+
+// Stops runaway paging on very long conversations
+const MAX_HISTORY_PAGES = 200;
+
+/**
+ * Every stored message of a conversation, oldest first.
+ */
+export async function fetchFullConversationHistory(conversationId: string): Promise<StreamMessage[]> {
+  const pages: StreamMessage[][] = [];
+  let before: string | undefined;
+  for (let i = 0; i < MAX_HISTORY_PAGES; i++) {
+    const page = await fetchConversationHistory(conversationId, { before });
+    pages.unshift(page.messages);
+    if (!page.hasMore || !page.cursor) break;
+    before = page.cursor;
+  }
+  return pages.flat();
+}
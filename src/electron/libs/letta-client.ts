@@ -0,0 +1,17 @@
+import Letta from "@letta-ai/letta-client";
+
+let client: Letta | null = null;
+
+/**
+ * Shared REST client for the configured Letta server.
+ * Created lazily so main.ts can finish setting LETTA_BASE_URL / LETTA_API_KEY first.
+ */
+export function getLettaClient(): Letta {
+  if (!client) {
+    client = new Letta({
+      baseURL: process.env.LETTA_BASE_URL,
+      apiKey: process.env.LETTA_API_KEY,
+    });
+  }
+  return client;
+}
@@ -0,0 +1,63 @@
+/**
+ * Core memory blocks of the agent behind a session.
+ * The first snapshot taken for a conversation in this app run is its baseline,
+ * so the panel can point out what the agent rewrote since then.
+ */
+
+import type { BlockResponse } from "@letta-ai/letta-client/resources/blocks/blocks";
+import type { MemoryBlock } from "../types.js";
+import { getLettaClient } from "./letta-client.js";
+
+// Block values by label, keyed by conversationId
+const baselines = new Map<string, Map<string, string>>();
+
+function toMemoryBlock(block: BlockResponse): MemoryBlock {
+  return {
+    id: block.id,
+    label: block.label ?? block.id,
+    value: block.value,
+    limit: block.limit,
+    description: block.description ?? undefined,
+    readOnly: block.read_only,
+  };
+}
+
+export async function getConversationAgentId(conversationId: string): Promise<string> {
+  const conversation = await getLettaClient().conversations.retrieve(conversationId);
+  return conversation.agent_id;
+}
+
+export async function listMemoryBlocks(agentId: string): Promise<MemoryBlock[]> {
+  const page = await getLettaClient().agents.blocks.list(agentId);
+  return page
+    .getPaginatedItems()
+    .map(toMemoryBlock)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export async function updateMemoryBlock(agentId: string, label: string, value: string): Promise<MemoryBlock> {
+  const block = await getLettaClient().agents.blocks.update(label, { agent_id: agentId, value });
+  return toMemoryBlock(block);
+}
+
+/**
+ * Labels whose value differs from the conversation's baseline.
+ * Records the baseline on first call.
+ */
+export function diffMemoryBaseline(conversationId: string, blocks: MemoryBlock[]): string[] {
+  const baseline = baselines.get(conversationId);
+  if (!baseline) {
+    baselines.set(conversationId, new Map(blocks.map((block) => [block.label, block.value])));
+    return [];
+  }
+  return blocks.filter((block) => baseline.get(block.label) !== block.value).map((block) => block.label);
+}
+
+// User edits are not the agent's doing, so they move the baseline along
+export function updateMemoryBaseline(conversationId: string, block: MemoryBlock): void {
+  baselines.get(conversationId)?.set(block.label, block.value);
+}
+
+export function forgetMemoryBaseline(conversationId: string): void {
+  baselines.delete(conversationId);
+}
@@ -0,0 +1,34 @@
+/**
+ * Models the Letta server can run agents on, and the note a session's
+ * transcript carries when it switches between them.
+ */
+
+import type { ModelSummary } from "../types.js";
+import { getLettaClient } from "./letta-client.js";
+
+// Rides along with the next prompt, so the switch is part of the stored conversation
+const MODEL_SWITCH_PATTERN = /<system-reminder>\s*The user switched this conversation to the model "([^"]+)"[\s\S]*?<\/system-reminder>/;
+
+/**
+ * Chat models on the server, grouped by provider.
+ */
+export async function listModels(): Promise<ModelSummary[]> {
+  const models = await getLettaClient().models.list();
+  return models
+    .flatMap((model) => model.handle ? [{
+      handle: model.handle,
+      name: model.display_name || model.name,
+      provider: model.provider_name ?? model.provider_type,
+      contextWindow: model.max_context_window,
+    }] : [])
+    .sort((a, b) => (a.provider ?? "").localeCompare(b.provider ?? "") || a.name.localeCompare(b.name));
+}
+
+export function withModelSwitchNote(prompt: string, model: string): string {
+  return `<system-reminder>\nThe user switched this conversation to the model "${model}". Earlier replies may come from a different model.\n</system-reminder>\n\n${prompt}`;
+}
+
+// The model a stored user message switched to, if it carries the note
+export function parseModelSwitch(text: string): string | null {
+  return MODEL_SWITCH_PATTERN.exec(text)?.[1] ?? null;
+}
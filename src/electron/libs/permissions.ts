@@ -0,0 +1,59 @@
+/**
+ * Tool approval policy: decides which tool calls go through the
+ * permission.request / permission.response round trip.
+ */
+
+import type { PermissionMode } from "@letta-ai/letta-code-sdk";
+import type { ApprovalMode } from "../types.js";
+import { getDb } from "./db.js";
+
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = "ask-bash-write-edit";
+
+// Tools that only read state or talk to the user
+const READ_ONLY_TOOLS = new Set([
+  "Read",
+  "Glob",
+  "Grep",
+  "LS",
+  "WebFetch",
+  "WebSearch",
+  "TodoWrite",
+  "AskUserQuestion",
+  "EnterPlanMode",
+  "ExitPlanMode",
+  "Skill",
+  "BashOutput",
+]);
+
+const SHELL_AND_EDIT_TOOLS = new Set(["Bash", "Write", "Edit"]);
+
+export function requiresApproval(mode: ApprovalMode, toolName: string): boolean {
+  switch (mode) {
+    case "bypass":
+      return false;
+    case "ask-mutating":
+      return !READ_ONLY_TOOLS.has(toolName);
+    case "ask-bash-write-edit":
+      return SHELL_AND_EDIT_TOOLS.has(toolName);
+  }
+}
+
+// Outside bypass mode the CLI must route approvals through canUseTool. The SDK's
+// bypass mode never calls canUseTool, so sessions with tool restrictions keep the
+// default mode and bypass only skips the approval prompt.
+export function toSdkPermissionMode(mode: ApprovalMode, hasToolRestrictions: boolean): PermissionMode {
+  return mode === "bypass" && !hasToolRestrictions ? "bypassPermissions" : "default";
+}
+
+export function isToolAllowedInDirectory(cwd: string, toolName: string): boolean {
+  const row = getDb()
+    .prepare("SELECT 1 FROM tool_approvals WHERE cwd = ? AND tool_name = ?")
+    .get(cwd, toolName);
+  return row !== undefined;
+}
+
+export function allowToolInDirectory(cwd: string, toolName: string): void {
+  getDb()
+    .prepare("INSERT OR IGNORE INTO tool_approvals (cwd, tool_name, created_at) VALUES (?, ?, ?)")
+    .run(cwd, toolName, Date.now());
+}
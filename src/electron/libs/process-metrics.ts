@@ -0,0 +1,121 @@
+/**
+ * CPU, memory and open handles of child processes, read from the OS.
+ * Linux reads /proc, macOS asks ps and, less often, lsof; elsewhere nothing is sampled.
+ */
+
+import { execFile } from "child_process";
+import { readdir, readFile } from "fs/promises";
+
+export type ProcessSample = {
+  // Share of one CPU core
+  cpuUsage?: number;
+  rssBytes?: number;
+  openHandles?: number;
+};
+
+// USER_HZ; the kernel reports CPU time to user space in these ticks on every common platform
+const CLOCK_TICKS_PER_SECOND = 100;
+
+// lsof takes far longer than ps, so macOS counts open files this often, not on every poll
+const HANDLE_COUNT_INTERVAL_MS = 10000;
+
+// CPU time at the previous sample, to turn /proc totals into a current rate
+const previousCpu = new Map<number, { seconds: number; at: number }>();
+
+// The last lsof counts by pid; undefined for a pid lsof did not report
+let handleCounts = new Map<number, number | undefined>();
+let handlesCountedAt = 0;
+let handleCount: Promise<void> | null = null;
+
+// stdout even when the command fails, e.g. lsof exiting 1 because one pid has gone
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: 5000 }, (_error, stdout) => resolve(stdout ?? ""));
+  });
+}
+
+function cpuRate(pid: number, seconds: number): number | undefined {
+  const now = Date.now();
+  const previous = previousCpu.get(pid);
+  previousCpu.set(pid, { seconds, at: now });
+  if (!previous || now <= previous.at) return undefined;
+  return Math.max(0, (seconds - previous.seconds) / ((now - previous.at) / 1000));
+}
+
+async function sampleLinux(pid: number): Promise<ProcessSample> {
+  const [stat, status, fds] = await Promise.all([
+    readFile(`/proc/${pid}/stat`, "utf8"),
+    readFile(`/proc/${pid}/status`, "utf8"),
+    readdir(`/proc/${pid}/fd`).catch(() => undefined),
+  ]);
+  // The command name may contain spaces; fields after it start at state (field 3)
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const cpuSeconds = (Number(fields[11]) + Number(fields[12])) / CLOCK_TICKS_PER_SECOND;
+  const rssKb = Number(/^VmRSS:\s+(\d+)/m.exec(status)?.[1]);
+  return {
+    cpuUsage: cpuRate(pid, cpuSeconds),
+    rssBytes: Number.isFinite(rssKb) ? rssKb * 1024 : undefined,
+    openHandles: fds?.length,
+  };
+}
+
+async function recountHandlesDarwin(pids: number[]): Promise<void> {
+  const lsof = await run("lsof", ["-n", "-P", "-p", pids.join(","), "-F", "f"]);
+  const counts = new Map<number, number | undefined>(pids.map((pid) => [pid, undefined]));
+  // -F f prints a p<pid> line, then an f<descriptor> line per open file
+  let current: number | undefined;
+  for (const line of lsof.split("\n")) {
+    if (line.startsWith("p")) {
+      current = Number(line.slice(1));
+      counts.set(current, 0);
+    } else if (line.startsWith("f") && current !== undefined) {
+      counts.set(current, (counts.get(current) ?? 0) + 1);
+    }
+  }
+  handleCounts = counts;
+  handlesCountedAt = Date.now();
+}
+
+// Recounted in the background once the last count is old or a new process shows up;
+// polls meanwhile reuse the previous counts rather than starting another lsof
+function countHandlesDarwin(pids: number[]): Map<number, number | undefined> {
+  const isFresh = Date.now() - handlesCountedAt < HANDLE_COUNT_INTERVAL_MS && pids.every((pid) => handleCounts.has(pid));
+  if (!isFresh && !handleCount) {
+    handleCount = recountHandlesDarwin(pids).finally(() => {
+      handleCount = null;
+    });
+  }
+  return handleCounts;
+}
+
+async function sampleDarwin(pids: number[]): Promise<Map<number, ProcessSample>> {
+  const handles = countHandlesDarwin(pids);
+  const ps = await run("ps", ["-o", "pid=,pcpu=,rss=", "-p", pids.join(",")]);
+
+  const samples = new Map<number, ProcessSample>();
+  for (const line of ps.split("\n")) {
+    const [pid, pcpu, rssKb] = line.trim().split(/\s+/).map(Number);
+    if (pid) samples.set(pid, { cpuUsage: pcpu / 100, rssBytes: rssKb * 1024, openHandles: handles.get(pid) });
+  }
+  return samples;
+}
+
+/**
+ * Current samples by pid. Processes that have exited or cannot be read are left out.
+ */
+export async function sampleProcesses(pids: number[]): Promise<Map<number, ProcessSample>> {
+  for (const pid of previousCpu.keys()) {
+    if (!pids.includes(pid)) previousCpu.delete(pid);
+  }
+  if (pids.length === 0) return new Map();
+
+  if (process.platform === "linux") {
+    const samples = await Promise.all(pids.map((pid) => sampleLinux(pid).catch(() => undefined)));
+    return new Map(pids.flatMap((pid, index) => {
+      const sample = samples[index];
+      return sample ? [[pid, sample] as const] : [];
+    }));
+  }
+  if (process.platform === "darwin") return sampleDarwin(pids);
+  return new Map();
+}
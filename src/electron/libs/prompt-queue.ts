@@ -0,0 +1,87 @@
+/**
+ * Follow-up prompts submitted while a session is busy.
+ * Each session has its own FIFO; ipc-handlers sends the head as a
+ * session.continue once the current run ends.
+ */
+
+import type { PromptAttachment, QueuedPrompt } from "../types.js";
+
+const queues = new Map<string, QueuedPrompt[]>();
+let onChange: (sessionId: string, prompts: QueuedPrompt[]) => void = () => {};
+
+function notify(sessionId: string): void {
+  onChange(sessionId, getQueuedPrompts(sessionId));
+}
+
+export function setPromptQueueListener(listener: (sessionId: string, prompts: QueuedPrompt[]) => void): void {
+  onChange = listener;
+}
+
+export function getQueuedPrompts(sessionId: string): QueuedPrompt[] {
+  return [...(queues.get(sessionId) ?? [])];
+}
+
+export function getAllPromptQueues(): Array<[string, QueuedPrompt[]]> {
+  return [...queues.entries()].map(([sessionId, prompts]) => [sessionId, [...prompts]]);
+}
+
+export function enqueuePrompt(sessionId: string, prompt: string, attachments?: PromptAttachment[]): QueuedPrompt {
+  const queued: QueuedPrompt = { id: crypto.randomUUID(), prompt, attachments, queuedAt: Date.now() };
+  queues.set(sessionId, [...(queues.get(sessionId) ?? []), queued]);
+  notify(sessionId);
+  return queued;
+}
+
+export function updateQueuedPrompt(sessionId: string, promptId: string, prompt: string): void {
+  const prompts = queues.get(sessionId);
+  if (!prompts) return;
+  queues.set(sessionId, prompts.map((queued) => (queued.id === promptId ? { ...queued, prompt } : queued)));
+  notify(sessionId);
+}
+
+export function removeQueuedPrompt(sessionId: string, promptId: string): void {
+  const prompts = queues.get(sessionId);
+  if (!prompts) return;
+  const remaining = prompts.filter((queued) => queued.id !== promptId);
+  if (remaining.length > 0) {
+    queues.set(sessionId, remaining);
+  } else {
+    queues.delete(sessionId);
+  }
+  notify(sessionId);
+}
+
+/**
+ * Put the queue in the given order. Unknown ids are ignored and prompts
+ * missing from `promptIds` keep their relative order at the end.
+ */
+export function reorderQueuedPrompts(sessionId: string, promptIds: string[]): void {
+  const prompts = queues.get(sessionId);
+  if (!prompts) return;
+  const rank = new Map(promptIds.map((id, index) => [id, index]));
+  const sorted = [...prompts].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+  queues.set(sessionId, sorted);
+  notify(sessionId);
+}
+
+// Remove and return the prompt to run next
+export function takeNextPrompt(sessionId: string): QueuedPrompt | undefined {
+  const prompts = queues.get(sessionId);
+  if (!prompts || prompts.length === 0) return undefined;
+  const [next, ...rest] = prompts;
+  if (rest.length > 0) {
+    queues.set(sessionId, rest);
+  } else {
+    queues.delete(sessionId);
+  }
+  notify(sessionId);
+  return next;
+}
+
+export function clearPromptQueue(sessionId?: string): void {
+  if (sessionId === undefined) {
+    queues.clear();
+    return;
+  }
+  if (queues.delete(sessionId)) notify(sessionId);
+}
@@ -0,0 +1,54 @@
+/**
+ * Most recently used working directories, offered as shortcuts when starting a session.
+ */
+
+import { statSync } from "fs";
+import { resolve } from "path";
+import { getDb } from "./db.js";
+
+const DEFAULT_LIMIT = 8;
+
+type RecentCwdRow = {
+  path: string;
+  last_used_at: number;
+  use_count: number;
+};
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export function recordRecentCwd(cwd: string): void {
+  const path = resolve(cwd.trim());
+  getDb().prepare(`
+    INSERT INTO recent_cwds (path, last_used_at, use_count) VALUES (?, ?, 1)
+    ON CONFLICT(path) DO UPDATE SET last_used_at = excluded.last_used_at, use_count = use_count + 1
+  `).run(path, Date.now());
+}
+
+/**
+ * Most recent directories first. Entries whose directory is gone are dropped
+ * from the list for good.
+ */
+export function listRecentCwds(limit = DEFAULT_LIMIT): RecentCwd[] {
+  const db = getDb();
+  const rows = db.prepare("SELECT * FROM recent_cwds ORDER BY last_used_at DESC").all() as RecentCwdRow[];
+  const missing = rows.filter((row) => !isDirectory(row.path));
+  if (missing.length > 0) {
+    const remove = db.prepare("DELETE FROM recent_cwds WHERE path = ?");
+    db.transaction(() => missing.forEach((row) => remove.run(row.path)))();
+  }
+
+  return rows
+    .filter((row) => !missing.includes(row))
+    .slice(0, Math.max(1, Math.floor(limit)))
+    .map((row) => ({ path: row.path, lastUsedAt: row.last_used_at, useCount: row.use_count }));
+}
+
+export function removeRecentCwd(path: string): void {
+  getDb().prepare("DELETE FROM recent_cwds WHERE path = ?").run(path);
+}
@@ -0,0 +1,103 @@
+/**
+ * Concurrency limit for agent runs.
+ * Runs beyond the limit wait in a FIFO queue and start as slots free up.
+ */
+
+import type { QueuedRun, RunQueueStatus } from "../types.js";
+import { getSetting, setSetting } from "./settings.js";
+
+export const DEFAULT_RUN_LIMIT = 3;
+const RUN_LIMIT_KEY = "maxConcurrentRuns";
+
+type PendingRun = QueuedRun & {
+  start: () => Promise<void>;
+};
+
+const activeRuns = new Set<string>();
+const queue: PendingRun[] = [];
+let onChange: (status: RunQueueStatus) => void = () => {};
+
+function getLimit(): number {
+  return getSetting(RUN_LIMIT_KEY, DEFAULT_RUN_LIMIT);
+}
+
+function notify(): void {
+  onChange(getRunQueueStatus());
+}
+
+// Start queued runs while there are free slots
+function drain(): void {
+  while (queue.length > 0 && activeRuns.size < getLimit()) {
+    const next = queue.shift()!;
+    launch(next);
+  }
+}
+
+function launch(run: PendingRun): void {
+  activeRuns.add(run.runId);
+  run.start()
+    .catch(() => {
+      // start() reports its own errors; this only keeps the slot accounting honest
+    })
+    .finally(() => {
+      activeRuns.delete(run.runId);
+      notify();
+      drain();
+    });
+}
+
+export function setRunQueueListener(listener: (status: RunQueueStatus) => void): void {
+  onChange = listener;
+}
+
+export function getRunQueueStatus(): RunQueueStatus {
+  return {
+    active: activeRuns.size,
+    limit: getLimit(),
+    queued: queue.map(({ runId, sessionId, title, cwd, queuedAt }) => ({ runId, sessionId, title, cwd, queuedAt })),
+  };
+}
+
+/**
+ * Run `start` now if a slot is free, otherwise queue it.
+ * `start` must resolve only once the run has finished.
+ * Returns true when the run was queued.
+ */
+export function scheduleRun(run: Omit<PendingRun, "runId" | "queuedAt">): boolean {
+  const pending: PendingRun = { ...run, runId: crypto.randomUUID(), queuedAt: Date.now() };
+  const queued = activeRuns.size >= getLimit();
+  if (queued) {
+    queue.push(pending);
+  } else {
+    launch(pending);
+  }
+  notify();
+  return queued;
+}
+
+/**
+ * Drop a queued run, by run id or by the session it would continue.
+ */
+export function cancelQueuedRun(match: { runId?: string; sessionId?: string }): QueuedRun | undefined {
+  const index = queue.findIndex((run) =>
+    (match.runId && run.runId === match.runId) || (match.sessionId && run.sessionId === match.sessionId)
+  );
+  if (index < 0) return undefined;
+  const [removed] = queue.splice(index, 1);
+  notify();
+  return removed;
+}
+
+export function hasQueuedRun(sessionId: string): boolean {
+  return queue.some((run) => run.sessionId === sessionId);
+}
+
+export function setRunLimit(limit: number): void {
+  setSetting(RUN_LIMIT_KEY, Math.max(1, Math.floor(limit)));
+  notify();
+  drain();
+}
+
+export function clearRunQueue(): void {
+  queue.length = 0;
+}
@@ -5,8 +5,12 @@ import {
   type SDKMessage,
   type CanUseToolResponse,
 } from "@letta-ai/letta-code-sdk";
-import type { ServerEvent } from "../types.js";
+import type { ChildProcess } from "child_process";
+import type { ApprovalMode, PromptAttachment, ServerEvent, WorkspaceProfile } from "../types.js";
 import type { PendingPermission } from "./runtime-state.js";
+import { isToolAllowedInDirectory, requiresApproval, toSdkPermissionMode } from "./permissions.js";
+import { readFileSnapshot, resolveToolPath } from "./file-snapshots.js";
+import { toSendMessage } from "./attachments.js";
 
 // Simplified session type for runner
 export type RunnerSession = {
@@ -14,19 +18,40 @@ export type RunnerSession = {
   title: string;
   status: string;
   cwd?: string;
+  // Agent to start new conversations on; falls back to LETTA_AGENT_ID, then the last agent used
+  agentId?: string;
+  // Model handle to run on; the SDK updates the agent's model to match
+  model?: string;
+  permissionMode: ApprovalMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  // Workspace profile for cwd; supplies environment variables and first-prompt instructions
+  profile?: WorkspaceProfile;
   pendingPermissions: Map<string, PendingPermission>;
+  approvedTools: Set<string>;
 };
 
 export type RunnerOptions = {
   prompt: string;
+  attachments?: PromptAttachment[];
   session: RunnerSession;
   resumeConversationId?: string;
   onEvent: (event: ServerEvent) => void;
-  onSessionUpdate?: (updates: { lettaConversationId?: string }) => void;
+  onSessionUpdate?: (updates: { lettaConversationId?: string; agentId?: string }) => void;
 };
 
 export type RunnerHandle = {
-  abort: () => void;
+  // Rejects when the interrupt cannot be delivered, e.g. the CLI already exited
+  abort: () => Promise<void>;
+  // Resolves once the run has ended, however it ended
+  finished: Promise<void>;
+};
+
+// A Letta Code process spawned for a run; it is stopped when the run ends
+export type CliProcess = {
+  pid: number;
+  sessionId: string;
+  startedAt: number;
 };
 
 const DEFAULT_CWD = process.cwd();
@@ -48,19 +73,60 @@ const debug = (msg: string, data?: Record<string, unknown>) => {
   log(msg, data);
 };
 
-// Store active Letta sessions for abort handling
-let activeLettaSession: LettaSession | null = null;
-
 // Store agentId for reuse across conversations
 let cachedAgentId: string | null = null;
 
+// Letta Code processes that have not exited yet, by pid
+const cliProcesses = new Map<number, CliProcess>();
+
+// The SDK keeps its CLI process private; it is only read to watch resource use
+function trackCliProcess(lettaSession: LettaSession, sessionId: string): CliProcess | undefined {
+  const child = (lettaSession as unknown as { transport?: { process?: ChildProcess } }).transport?.process;
+  if (!child?.pid || child.exitCode !== null) return undefined;
+  const cliProcess = { pid: child.pid, sessionId, startedAt: Date.now() };
+  cliProcesses.set(child.pid, cliProcess);
+  child.once("exit", () => cliProcesses.delete(cliProcess.pid));
+  return cliProcess;
+}
+
+export function listCliProcesses(): CliProcess[] {
+  return Array.from(cliProcesses.values());
+}
+
+// Letta Code inherits process.env when the SDK spawns it, so profile variables are
+// set around initialization. Initializations take turns so runs never see each other's.
+let initializationTurn: Promise<void> = Promise.resolve();
+
+function initializeWithEnv(lettaSession: LettaSession, env: Record<string, string> = {}): Promise<void> {
+  const initialize = initializationTurn.then(async () => {
+    const previous = Object.keys(env).map((key) => [key, process.env[key]] as const);
+    Object.assign(process.env, env);
+    try {
+      await lettaSession.initialize();
+    } finally {
+      for (const [key, value] of previous) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+  initializationTurn = initialize.catch(() => undefined);
+  return initialize;
+}
+
+function withInstructions(prompt: string, instructions: string | undefined): string {
+  if (!instructions) return prompt;
+  return `<system-reminder>\nWorkspace instructions for this project:\n${instructions}\n</system-reminder>\n\n${prompt}`;
+}
+
 export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
-  const { prompt, session, resumeConversationId, onEvent, onSessionUpdate } = options;
+  const { prompt, attachments, session, resumeConversationId, onEvent, onSessionUpdate } = options;
   
   debug("runLetta called", {
     prompt: prompt.slice(0, 100) + (prompt.length > 100 ? "..." : ""),
     sessionId: session.id,
     resumeConversationId,
+    agentId: session.agentId,
     cachedAgentId,
     cwd: session.cwd,
   });
@@ -82,39 +148,98 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
     });
   };
 
+  // Ask the UI and wait for the matching permission.response
+  const requestPermission = (toolName: string, input: unknown) => {
+    const toolUseId = crypto.randomUUID();
+    sendPermissionRequest(toolUseId, toolName, input);
+    return new Promise<CanUseToolResponse>((resolve) => {
+      session.pendingPermissions.set(toolUseId, {
+        toolUseId,
+        toolName,
+        input,
+        resolve: (result) => {
+          session.pendingPermissions.delete(toolUseId);
+          resolve(result);
+        }
+      });
+    });
+  };
+
+  const cwd = session.cwd ?? DEFAULT_CWD;
+
+  // Pre-Write file contents by resolved path, read before the tool can run
+  const pendingSnapshots = new Map<string, Promise<string | null | undefined>>();
+  const snapshottedCalls = new Set<string>();
+  const snapshotWriteTarget = (input: unknown) => {
+    const filePath = (input as { file_path?: unknown } | null)?.file_path;
+    if (typeof filePath !== "string" || !filePath) return undefined;
+    const path = resolveToolPath(cwd, filePath);
+    if (!pendingSnapshots.has(path)) pendingSnapshots.set(path, readFileSnapshot(path));
+    return { filePath, path };
+  };
+
+  // Pair a Write call with the file content it is about to replace
+  const sendWriteSnapshot = async (toolCallId: string, input: unknown) => {
+    if (snapshottedCalls.has(toolCallId)) return;
+    const target = snapshotWriteTarget(input);
+    if (!target) return;
+    snapshottedCalls.add(toolCallId);
+    const previousContent = await pendingSnapshots.get(target.path);
+    pendingSnapshots.delete(target.path);
+    if (previousContent === undefined) return;
+    onEvent({
+      type: "tool.snapshot",
+      payload: { sessionId: currentSessionId, toolCallId, filePath: target.filePath, previousContent }
+    });
+  };
+
+  // This run's own Letta session, so abort() never touches another run; null once closed
+  let runSession: LettaSession | null = null;
+  let aborted = false;
+
   // Start the query in the background
-  (async () => {
+  const finished = (async () => {
     try {
       // Common options for canUseTool
       const canUseTool = async (toolName: string, input: unknown) => {
+        if (toolName === "Write") snapshotWriteTarget(input);
+
         // For AskUserQuestion, we need to wait for user response
         if (toolName === "AskUserQuestion") {
-          const toolUseId = crypto.randomUUID();
-          sendPermissionRequest(toolUseId, toolName, input);
-          return new Promise<CanUseToolResponse>((resolve) => {
-            session.pendingPermissions.set(toolUseId, {
-              toolUseId,
-              toolName,
-              input,
-              resolve: (result) => {
-                session.pendingPermissions.delete(toolUseId);
-                resolve(result);
-              }
-            });
-          });
+          return requestPermission(toolName, input);
+        }
+
+        const isRestricted = session.disallowedTools?.includes(toolName)
+          || (session.allowedTools && !session.allowedTools.includes(toolName));
+        if (isRestricted) {
+          debug("canUseTool: tool not allowed in this session", { toolName });
+          return { behavior: "deny" as const, message: `The ${toolName} tool is not allowed in this session.` };
+        }
+
+        const needsApproval = requiresApproval(session.permissionMode, toolName)
+          && !session.approvedTools.has(toolName)
+          && !isToolAllowedInDirectory(cwd, toolName);
+        if (needsApproval) {
+          debug("canUseTool: asking for approval", { toolName });
+          return requestPermission(toolName, input);
         }
         return { behavior: "allow" as const };
       };
 
       // Session options
+      const hasToolRestrictions = !!session.allowedTools?.length || !!session.disallowedTools?.length;
       const sessionOptions = {
-        cwd: session.cwd ?? DEFAULT_CWD,
-        permissionMode: "bypassPermissions" as const,
+        cwd,
+        model: session.model,
+        permissionMode: toSdkPermissionMode(session.permissionMode, hasToolRestrictions),
+        // Not passed on as allowedTools: the CLI runs those without asking, skipping approval.
+        // canUseTool enforces both lists instead.
         canUseTool,
       };
 
       // Create or resume session
       let lettaSession: LettaSession;
+      const requestedAgentId = session.agentId ?? process.env.LETTA_AGENT_ID;
 
       // Validate that resumeConversationId looks like a valid Letta ID
       // Valid IDs are: agent-xxx, conv-xxx, conversation-xxx, or UUIDs
@@ -141,6 +266,10 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
           debug("creating session: createSession (new agent, fallback)");
           lettaSession = createSession(undefined, sessionOptions);
         }
+      } else if (requestedAgentId) {
+        // New conversation on the agent picked for this session
+        debug("creating session: createSession with agentId", { agentId: requestedAgentId });
+        lettaSession = createSession(requestedAgentId, sessionOptions);
       } else if (cachedAgentId) {
         // Create new conversation on existing agent
         debug("creating session: resumeSession with cachedAgentId", { cachedAgentId });
@@ -153,11 +282,20 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
       debug("session created successfully");
 
       // Store for abort handling
-      activeLettaSession = lettaSession;
+      runSession = lettaSession;
+      if (aborted) {
+        debug("aborted before send(), skipping");
+        return;
+      }
+
+      debug("initializing session");
+      await initializeWithEnv(lettaSession, session.profile?.env);
+      const cliProcess = trackCliProcess(lettaSession, currentSessionId);
 
-      // Send the prompt (triggers init internally)
+      // Profile instructions go with the first prompt of a new conversation only
       debug("calling send()");
-      await lettaSession.send(prompt);
+      const text = resumeConversationId ? prompt : withInstructions(prompt, session.profile?.instructions);
+      await lettaSession.send(await toSendMessage(text, attachments, cwd));
       debug("send() completed", {
         conversationId: lettaSession.conversationId,
         agentId: lettaSession.agentId,
@@ -166,8 +304,9 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
       // Now initialized - update sessionId and cache agentId
       if (lettaSession.conversationId) {
         currentSessionId = lettaSession.conversationId;
+        if (cliProcess) cliProcess.sessionId = currentSessionId;
         debug("session initialized", { conversationId: lettaSession.conversationId, agentId: lettaSession.agentId });
-        onSessionUpdate?.({ lettaConversationId: lettaSession.conversationId });
+        onSessionUpdate?.({ lettaConversationId: lettaSession.conversationId, agentId: lettaSession.agentId ?? undefined });
       } else {
         log("WARNING: no conversationId available after send()");
       }
@@ -185,6 +324,10 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
         messageCount++;
         debug("received message", { type: message.type, count: messageCount });
         
+        if (message.type === "tool_call" && message.toolName === "Write") {
+          await sendWriteSnapshot(message.toolCallId, message.toolInput);
+        }
+
         // Send message directly to frontend (no transform needed)
         sendMessage(message);
 
@@ -194,7 +337,7 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
           debug("result received", { success: message.success, status });
           onEvent({
             type: "session.status",
-            payload: { sessionId: currentSessionId, status, title: currentSessionId }
+            payload: { sessionId: currentSessionId, status }
           });
         }
       }
@@ -205,7 +348,7 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
         debug("query completed normally");
         onEvent({
           type: "session.status",
-          payload: { sessionId: currentSessionId, status: "completed", title: currentSessionId }
+          payload: { sessionId: currentSessionId, status: "completed" }
         });
       }
     } catch (error) {
@@ -221,19 +364,23 @@ export async function runLetta(options: RunnerOptions): Promise<RunnerHandle> {
       });
       onEvent({
         type: "session.status",
-        payload: { sessionId: currentSessionId, status: "error", title: currentSessionId, error: String(error) }
+        payload: { sessionId: currentSessionId, status: "error", error: String(error) }
       });
     } finally {
-      debug("runLetta finally block, clearing activeLettaSession");
-      activeLettaSession = null;
+      debug("runLetta finally block, closing session", { sessionId: currentSessionId });
+      // Each run spawns its own Letta Code process; closing stops it
+      runSession?.close();
+      runSession = null;
     }
   })();
 
   return {
     abort: async () => {
-      if (activeLettaSession) {
-        await activeLettaSession.abort();
+      aborted = true;
+      if (runSession) {
+        await runSession.abort();
       }
-    }
+    },
+    finished,
   };
 }
@@ -1,6 +1,7 @@
 /**
  * Simple in-memory runtime state for active sessions.
- * No persistence needed - Letta handles conversation/message storage.
+ * Letta handles conversation/message storage; the session index is
+ * persisted separately in session-store.ts.
  */
 
 import type { CanUseToolResponse } from "../types.js";
@@ -12,13 +13,19 @@ export type PendingPermission = {
   resolve: (result: CanUseToolResponse) => void;
 };
 
-export type SessionStatus = "idle" | "running" | "completed" | "error";
+export type SessionStatus = "idle" | "queued" | "running" | "completed" | "error";
 
 export type RuntimeSession = {
   conversationId: string;
   agentId?: string;
   status: SessionStatus;
   pendingPermissions: Map<string, PendingPermission>;
+  // Tools the user allowed for the rest of this session
+  approvedTools: Set<string>;
+  // Model picked since the last run; announced in the transcript with the next prompt
+  switchedModel?: string;
+  // Model the current run's CLI reported at init; its usage is priced by it
+  reportedModel?: string;
   abortController?: AbortController;
 };
 
@@ -30,6 +37,7 @@ export function createRuntimeSession(conversationId: string): RuntimeSession {
     conversationId,
     status: "idle",
     pendingPermissions: new Map(),
+    approvedTools: new Set(),
   };
   sessions.set(conversationId, session);
   return session;
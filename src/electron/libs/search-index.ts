@@ -0,0 +1,163 @@
+/**
+ * Full-text index over session messages for the sidebar search.
+ * Built from server history, so hit positions line up with a fully hydrated session.
+ */
+
+import type { SearchHit, SearchResult, SearchSnippet, StreamMessage } from "../types.js";
+import { getDb } from "./db.js";
+import { listStoredSessions } from "./session-store.js";
+
+// Tool outputs can be huge; only their start is searchable
+const MAX_INDEXED_CHARS = 20_000;
+const MAX_HITS = 200;
+const MAX_HITS_PER_SESSION = 5;
+const SNIPPET_TOKENS = 16;
+const MAX_PROMPT_HISTORY = 500;
+
+// Control characters never appear in indexed text, so they can mark matches in snippets
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+type SearchRow = {
+  session_id: string;
+  position: number;
+  kind: SearchHit["kind"];
+  snippet: string;
+};
+
+function searchableText(message: StreamMessage): { kind: SearchHit["kind"]; text: string } | null {
+  switch (message.type) {
+    case "user_prompt":
+      return { kind: "user", text: message.prompt };
+    case "assistant":
+      return { kind: "assistant", text: message.content };
+    case "tool_call":
+      return { kind: "tool_call", text: `${message.toolName} ${JSON.stringify(message.toolInput)}` };
+    case "tool_result":
+      return { kind: "tool_result", text: message.content };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace the indexed messages of a session.
+ */
+export function indexSession(sessionId: string, messages: StreamMessage[]): void {
+  const db = getDb();
+  const remove = db.prepare("DELETE FROM message_search WHERE session_id = ?");
+  const insert = db.prepare("INSERT INTO message_search (session_id, position, kind, text) VALUES (?, ?, ?, ?)");
+  const markIndexed = db.prepare(`
+    INSERT INTO search_indexed_sessions (session_id, indexed_at) VALUES (?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET indexed_at = excluded.indexed_at
+  `);
+
+  db.transaction(() => {
+    remove.run(sessionId);
+    messages.forEach((message, position) => {
+      const entry = searchableText(message);
+      if (entry?.text.trim()) insert.run(sessionId, position, entry.kind, entry.text.slice(0, MAX_INDEXED_CHARS));
+    });
+    markIndexed.run(sessionId, Date.now());
+  })();
+}
+
+export function isSessionIndexed(sessionId: string): boolean {
+  return !!getDb().prepare("SELECT 1 FROM search_indexed_sessions WHERE session_id = ?").get(sessionId);
+}
+
+export function forgetSessionIndex(sessionId: string): void {
+  const db = getDb();
+  db.prepare("DELETE FROM message_search WHERE session_id = ?").run(sessionId);
+  db.prepare("DELETE FROM search_indexed_sessions WHERE session_id = ?").run(sessionId);
+}
+
+/**
+ * Distinct prompts sent in indexed sessions, from the most recently updated
+ * session down and latest first within each.
+ */
+export function listPromptHistory(limit = MAX_PROMPT_HISTORY): string[] {
+  const rows = getDb().prepare(`
+    SELECT message_search.text AS text
+    FROM message_search JOIN sessions ON sessions.id = message_search.session_id
+    WHERE message_search.kind = 'user'
+    ORDER BY sessions.updated_at DESC, CAST(message_search.position AS INTEGER) DESC
+  `).all() as Array<{ text: string }>;
+
+  const prompts = new Set<string>();
+  for (const row of rows) {
+    if (prompts.size >= limit) break;
+    prompts.add(row.text);
+  }
+  return [...prompts];
+}
+
+// Every word must match; the last one may be a prefix, as it is usually still being typed
+function toMatchQuery(query: string): string | null {
+  const terms = query.split(/\s+/).filter(Boolean).map((term) => `"${term.replace(/"/g, '""')}"`);
+  if (terms.length === 0) return null;
+  terms[terms.length - 1] += "*";
+  return terms.join(" ");
+}
+
+function parseSnippet(raw: string): SearchSnippet {
+  const snippet: SearchSnippet = [];
+  for (const part of raw.split(MATCH_START)) {
+    const [matched, rest] = part.includes(MATCH_END) ? part.split(MATCH_END) : [null, part];
+    if (matched) snippet.push({ text: matched, match: true });
+    if (rest) snippet.push({ text: rest.replace(/\s+/g, " "), match: false });
+  }
+  return snippet;
+}
+
+function titleSnippet(title: string, query: string): SearchSnippet | undefined {
+  const index = title.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return undefined;
+  return [
+    { text: title.slice(0, index), match: false },
+    { text: title.slice(index, index + query.length), match: true },
+    { text: title.slice(index + query.length), match: false },
+  ].filter((part) => part.text);
+}
+
+/**
+ * Sessions matching a query, title matches first, then by their best message hit.
+ */
+export function searchSessions(query: string): SearchResult[] {
+  const trimmed = query.trim();
+  const matchQuery = toMatchQuery(trimmed);
+  if (!matchQuery) return [];
+
+  const rows = getDb().prepare(`
+    SELECT session_id, position, kind, snippet(message_search, 3, ?, ?, '…', ?) AS snippet
+    FROM message_search
+    WHERE message_search MATCH ?
+    ORDER BY rank
+    LIMIT ?
+  `).all(MATCH_START, MATCH_END, SNIPPET_TOKENS, matchQuery, MAX_HITS) as SearchRow[];
+
+  const sessions = listStoredSessions();
+  const titles = new Map(sessions.map((session) => [session.id, session.title]));
+  const results = new Map<string, SearchResult>();
+  const resultFor = (sessionId: string): SearchResult => {
+    let result = results.get(sessionId);
+    if (!result) {
+      result = { sessionId, title: titles.get(sessionId) ?? sessionId, hits: [] };
+      results.set(sessionId, result);
+    }
+    return result;
+  };
+
+  for (const session of sessions) {
+    const snippet = titleSnippet(session.title, trimmed);
+    if (snippet) resultFor(session.id).titleSnippet = snippet;
+  }
+  for (const row of rows) {
+    // Index rows can outlive a session deleted while a search was running
+    if (!titles.has(row.session_id)) continue;
+    const result = resultFor(row.session_id);
+    if (result.hits.length >= MAX_HITS_PER_SESSION) continue;
+    result.hits.push({ position: Number(row.position), kind: row.kind, snippet: parseSnippet(row.snippet) });
+  }
+  return Array.from(results.values());
+}
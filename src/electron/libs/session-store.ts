@@ -0,0 +1,131 @@
+/**
+ * Durable session index stored in the Electron userData directory.
+ * Letta owns the conversation messages; this only remembers which
+ * conversations Cowork has started so the sidebar survives restarts.
+ */
+
+import type { ApprovalMode, SessionInfo, SessionStatus } from "../types.js";
+import { getDb } from "./db.js";
+
+type SessionRow = {
+  id: string;
+  title: string;
+  status: SessionStatus;
+  cwd: string | null;
+  letta_conversation_id: string | null;
+  agent_id: string | null;
+  model: string | null;
+  permission_mode: ApprovalMode | null;
+  // JSON-encoded string arrays
+  allowed_tools: string | null;
+  disallowed_tools: string | null;
+  tags: string | null;
+  // 0 or 1
+  pinned: number | null;
+  archived: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+function parseList(value: string | null): string[] | undefined {
+  return value ? JSON.parse(value) : undefined;
+}
+
+function serializeList(value: string[] | undefined): string | null {
+  return value ? JSON.stringify(value) : null;
+}
+
+function toSessionInfo(row: SessionRow): SessionInfo {
+  return {
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    cwd: row.cwd ?? undefined,
+    lettaConversationId: row.letta_conversation_id ?? undefined,
+    agentId: row.agent_id ?? undefined,
+    model: row.model ?? undefined,
+    permissionMode: row.permission_mode ?? undefined,
+    allowedTools: parseList(row.allowed_tools),
+    disallowedTools: parseList(row.disallowed_tools),
+    pinned: !!row.pinned,
+    archived: !!row.archived,
+    tags: parseList(row.tags),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listStoredSessions(): SessionInfo[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM sessions ORDER BY updated_at DESC")
+    .all() as SessionRow[];
+  return rows.map(toSessionInfo);
+}
+
+export function getStoredSession(id: string): SessionInfo | undefined {
+  const row = getDb().prepare("SELECT * FROM sessions WHERE id = ?").get(id) as SessionRow | undefined;
+  return row ? toSessionInfo(row) : undefined;
+}
+
+/**
+ * Insert or update a session. Fields left undefined keep their stored value;
+ * new sessions fall back to the id as title and "idle" as status.
+ */
+export function saveSession(id: string, updates: Partial<Omit<SessionInfo, "id" | "createdAt">>): SessionInfo {
+  const now = Date.now();
+  const existing = getStoredSession(id);
+  const next: SessionInfo = {
+    id,
+    title: updates.title || existing?.title || id,
+    status: updates.status ?? existing?.status ?? "idle",
+    cwd: updates.cwd ?? existing?.cwd,
+    lettaConversationId: updates.lettaConversationId ?? existing?.lettaConversationId ?? id,
+    agentId: updates.agentId ?? existing?.agentId,
+    model: updates.model ?? existing?.model,
+    permissionMode: updates.permissionMode ?? existing?.permissionMode,
+    allowedTools: updates.allowedTools ?? existing?.allowedTools,
+    disallowedTools: updates.disallowedTools ?? existing?.disallowedTools,
+    pinned: updates.pinned ?? existing?.pinned,
+    archived: updates.archived ?? existing?.archived,
+    tags: updates.tags ?? existing?.tags,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: updates.updatedAt ?? now,
+  };
+
+  getDb().prepare(`
+    INSERT INTO sessions (id, title, status, cwd, letta_conversation_id, agent_id, model, permission_mode, allowed_tools, disallowed_tools, pinned, archived, tags, created_at, updated_at)
+    VALUES (@id, @title, @status, @cwd, @lettaConversationId, @agentId, @model, @permissionMode, @allowedTools, @disallowedTools, @pinned, @archived, @tags, @createdAt, @updatedAt)
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      status = excluded.status,
+      cwd = excluded.cwd,
+      letta_conversation_id = excluded.letta_conversation_id,
+      agent_id = excluded.agent_id,
+      model = excluded.model,
+      permission_mode = excluded.permission_mode,
+      allowed_tools = excluded.allowed_tools,
+      disallowed_tools = excluded.disallowed_tools,
+      pinned = excluded.pinned,
+      archived = excluded.archived,
+      tags = excluded.tags,
+      updated_at = excluded.updated_at
+  `).run({
+    ...next,
+    cwd: next.cwd ?? null,
+    lettaConversationId: next.lettaConversationId ?? null,
+    agentId: next.agentId ?? null,
+    model: next.model ?? null,
+    permissionMode: next.permissionMode ?? null,
+    allowedTools: serializeList(next.allowedTools),
+    disallowedTools: serializeList(next.disallowedTools),
+    pinned: next.pinned ? 1 : 0,
+    archived: next.archived ? 1 : 0,
+    tags: serializeList(next.tags),
+  });
+
+  return next;
+}
+
+export function deleteStoredSession(id: string): boolean {
+  return getDb().prepare("DELETE FROM sessions WHERE id = ?").run(id).changes > 0;
+}
@@ -0,0 +1,100 @@
+/**
+ * Session titles: a quick summary of the first prompt, replaced by one from the
+ * agent's model once the first run has finished.
+ */
+
+import { getLettaClient } from "./letta-client.js";
+
+const MAX_TITLE_WORDS = 8;
+const MAX_TITLE_LENGTH = 60;
+const MODEL_TITLE_TIMEOUT_MS = 30_000;
+export const UNTITLED_SESSION = "Untitled session";
+
+// Openers that say nothing about the task
+const FILLER_PATTERN = /^(?:please|pls|hey|hi|hello|ok(?:ay)?|so|can you|could you|would you|will you|i (?:want|need|would like|'d like) you to|help me(?: to)?|let'?s)\b[\s,:]*/i;
+
+const TITLE_SYSTEM_PROMPT = `You are a conversation title generator.
+
+Output ONLY a short, descriptive title for the conversation above.
+Rules:
+- 2 to 7 words
+- describe the actual topic, not the mood
+- no quotes, markdown, prefixes, or trailing punctuation
+- never call any tools; reply with plain text only`;
+
+const TITLE_USER_PROMPT = "Based on the conversation above, output a short title (2-7 words) describing the topic. Reply with ONLY the title text.";
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Heuristic title: the first sentence of the prompt without code, links,
+ * markdown or polite openers, cut to a few words.
+ */
+export function summarizePrompt(prompt: string): string {
+  const text = prompt
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[#>*_~[\]]+/g, " ");
+  const firstLine = text.split("\n").map((line) => line.trim()).find(Boolean) ?? "";
+  let sentence = firstLine.split(/(?<=[.!?])\s/)[0];
+  for (let previous = ""; previous !== sentence; ) {
+    previous = sentence;
+    sentence = sentence.replace(FILLER_PATTERN, "");
+  }
+  sentence = sentence.replace(/[\s.!?,;:]+$/, "");
+
+  const words = sentence.split(/\s+/).filter(Boolean);
+  let title = words.slice(0, MAX_TITLE_WORDS).join(" ");
+  if (title.length > MAX_TITLE_LENGTH) {
+    title = title.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, "");
+  }
+  if (!title) return UNTITLED_SESSION;
+  const truncated = title.length < words.join(" ").length;
+  return capitalize(truncated ? `${title}…` : title);
+}
+
+function normalizeModelTitle(text: string): string | null {
+  const title = text.replace(/\s+/g, " ").trim().replace(/^["']|["']$/g, "").replace(/[.!?]+$/, "").trim();
+  return title ? title.slice(0, MAX_TITLE_LENGTH * 2) : null;
+}
+
+/**
+ * Ask the agent's model for a title. The question goes to a hidden fork of the
+ * conversation, which is deleted afterwards, so the real history stays untouched.
+ * Resolves to null when the server or model cannot answer.
+ */
+export async function generateModelTitle(conversationId: string): Promise<string | null> {
+  const client = getLettaClient();
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(), MODEL_TITLE_TIMEOUT_MS);
+  let forkId: string | null = null;
+  try {
+    const fork = await client.conversations.fork(conversationId, { hidden: true });
+    forkId = fork.id;
+    const stream = await client.conversations.messages.create(forkId, {
+      messages: [{ role: "user", content: TITLE_USER_PROMPT }],
+      override_system: TITLE_SYSTEM_PROMPT,
+      max_steps: 1,
+      streaming: true,
+      stream_tokens: false,
+    }, { signal: abortController.signal });
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (chunk.message_type !== "assistant_message") continue;
+      const { content } = chunk;
+      text += typeof content === "string"
+        ? content
+        : content.map((part) => ("text" in part ? part.text : "")).join("");
+    }
+    return normalizeModelTitle(text);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    if (forkId) client.conversations.delete(forkId).catch(() => undefined);
+  }
+}
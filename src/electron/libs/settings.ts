@@ -0,0 +1,21 @@
+/**
+ * App-wide settings persisted as JSON values in the local database.
+ */
+
+import { getDb } from "./db.js";
+
+export function getSetting<T>(key: string, fallback: T): T {
+  const row = getDb().prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined;
+  if (!row) return fallback;
+  try {
+    return JSON.parse(row.value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function setSetting<T>(key: string, value: T): void {
+  getDb()
+    .prepare("INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+    .run(key, JSON.stringify(value));
+}
@@ -0,0 +1,147 @@
+/**
+ * Prompt templates, kept as Markdown files with a small frontmatter header. The
+ * library lives in app data; a repository can carry its own in .letta/templates.
+ */
+
+import { app } from "electron";
+import { mkdir, readdir, readFile, unlink, writeFile } from "fs/promises";
+import { basename, dirname, extname, join, resolve } from "path";
+
+const WORKSPACE_TEMPLATE_DIR = join(".letta", "templates");
+const BUNDLE_VERSION = 1;
+
+type TemplateFields = Pick<PromptTemplate, "name" | "description" | "body">;
+
+// What an export writes and an import reads
+type TemplateBundle = {
+  version: number;
+  templates: TemplateFields[];
+};
+
+function libraryDirectory(): string {
+  return join(app.getPath("userData"), "templates");
+}
+
+function templateDirectory(source: PromptTemplate["source"], cwd: string | undefined): string {
+  if (source === "library") return libraryDirectory();
+  if (!cwd?.trim()) throw new Error("Workspace templates need a working directory.");
+  return join(resolve(cwd.trim()), WORKSPACE_TEMPLATE_DIR);
+}
+
+// The source whose directory holds the file: the library, or the templates of this
+// working directory only. Null for anything else, however the path is spelled.
+function sourceOfPath(path: string, cwd: string | undefined): PromptTemplate["source"] | null {
+  if (extname(path) !== ".md") return null;
+  const directory = dirname(resolve(path));
+  if (directory === resolve(libraryDirectory())) return "library";
+  return cwd?.trim() && directory === templateDirectory("workspace", cwd) ? "workspace" : null;
+}
+
+// Only files in a template directory may be overwritten or deleted
+function isTemplatePath(path: string, cwd: string | undefined): boolean {
+  return sourceOfPath(path, cwd) !== null;
+}
+
+function parseTemplate(text: string, fallbackName: string): TemplateFields {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  const fields: Record<string, string> = {};
+  for (const line of match?.[1].split(/\r?\n/) ?? []) {
+    const separator = line.indexOf(":");
+    if (separator > 0) fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return {
+    name: fields.name || fallbackName,
+    description: fields.description || undefined,
+    body: match ? text.slice(match[0].length) : text,
+  };
+}
+
+function serializeTemplate(template: TemplateFields): string {
+  const header = [`name: ${template.name.replace(/\s+/g, " ").trim()}`];
+  if (template.description?.trim()) header.push(`description: ${template.description.replace(/\s+/g, " ").trim()}`);
+  return `---\n${header.join("\n")}\n---\n${template.body}`;
+}
+
+async function readTemplates(directory: string, source: PromptTemplate["source"]): Promise<PromptTemplate[]> {
+  const names = await readdir(directory).catch((): string[] => []);
+  const templates = await Promise.all(names.filter((name) => extname(name) === ".md").map(async (name) => {
+    const path = join(directory, name);
+    const text = await readFile(path, "utf8").catch(() => null);
+    return text === null ? null : { ...parseTemplate(text, basename(name, ".md")), path, source };
+  }));
+  return templates.filter((template): template is PromptTemplate => template !== null);
+}
+
+/**
+ * The working directory's templates, then the library's, each sorted by name.
+ */
+export async function listTemplates(cwd?: string): Promise<PromptTemplate[]> {
+  const byName = (a: PromptTemplate, b: PromptTemplate) => a.name.localeCompare(b.name);
+  const workspace = cwd?.trim() ? await readTemplates(templateDirectory("workspace", cwd), "workspace") : [];
+  const library = await readTemplates(libraryDirectory(), "library");
+  return [...workspace.sort(byName), ...library.sort(byName)];
+}
+
+async function freePath(directory: string, name: string): Promise<string> {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "template";
+  const taken = new Set(await readdir(directory).catch((): string[] => []));
+  let fileName = `${slug}.md`;
+  for (let suffix = 2; taken.has(fileName); suffix++) fileName = `${slug}-${suffix}.md`;
+  return join(directory, fileName);
+}
+
+/**
+ * Write a template. One with a path overwrites that file and keeps the source of
+ * the directory it is in; a new one gets a file named after it in its source's directory.
+ */
+export async function saveTemplate(template: TemplateFields & { path?: string; source: PromptTemplate["source"] }, cwd?: string): Promise<PromptTemplate> {
+  const name = template.name.trim();
+  if (!name) throw new Error("Templates need a name.");
+  const fields = { name, description: template.description?.trim() || undefined, body: template.body };
+
+  const existingSource = template.path ? sourceOfPath(template.path, cwd) : null;
+  if (template.path && existingSource) {
+    const path = resolve(template.path);
+    await writeFile(path, serializeTemplate(fields), "utf8");
+    return { ...fields, path, source: existingSource };
+  }
+
+  const directory = templateDirectory(template.source, cwd);
+  await mkdir(directory, { recursive: true });
+  const path = await freePath(directory, name);
+  await writeFile(path, serializeTemplate(fields), "utf8");
+  return { ...fields, path, source: template.source };
+}
+
+export async function deleteTemplate(path: string, cwd?: string): Promise<void> {
+  if (!isTemplatePath(path, cwd)) throw new Error(`Not a template file: ${path}`);
+  await unlink(resolve(path));
+}
+
+export async function exportTemplates(paths: string[], cwd?: string): Promise<string> {
+  const templates = await Promise.all(paths.filter((path) => isTemplatePath(path, cwd)).map(async (path) => {
+    return parseTemplate(await readFile(path, "utf8"), basename(path, ".md"));
+  }));
+  const bundle: TemplateBundle = { version: BUNDLE_VERSION, templates };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Add templates from exported bundles or single Markdown files to the library.
+ */
+export async function importTemplates(filePaths: string[]): Promise<PromptTemplate[]> {
+  const imported: PromptTemplate[] = [];
+  for (const filePath of filePaths) {
+    const text = await readFile(filePath, "utf8");
+    let templates: TemplateFields[];
+    if (extname(filePath) === ".json") {
+      const bundle = JSON.parse(text) as Partial<TemplateBundle>;
+      if (!Array.isArray(bundle.templates)) throw new Error(`${basename(filePath)} is not a template export.`);
+      templates = bundle.templates.filter((template) => typeof template?.name === "string" && typeof template.body === "string");
+    } else {
+      templates = [parseTemplate(text, basename(filePath, extname(filePath)))];
+    }
+    for (const template of templates) imported.push(await saveTemplate({ ...template, source: "library" }));
+  }
+  return imported;
+}
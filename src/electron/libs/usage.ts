@@ -0,0 +1,209 @@
+/**
+ * Token usage and estimated cost of runs, for the session footer and the usage dashboard.
+ * The SDK's result message carries no token counts, so they come from the Letta
+ * server's runs; cost is estimated from a user-editable price table.
+ */
+
+import type { ModelPrice, PriceTable, UsageBreakdown, UsageGroup, UsageReport, UsageTotals } from "../types.js";
+import { getDb } from "./db.js";
+import { getLettaClient } from "./letta-client.js";
+import { getSetting, setSetting } from "./settings.js";
+
+const PRICES_SETTING = "modelPrices";
+const REPORT_DAYS = 7;
+const RUN_LOOKBACK = 20;
+// Server and local clocks can disagree; runs already counted are skipped either way
+const CLOCK_SKEW_MS = 60_000;
+
+type UsageRow = {
+  session_id: string;
+  agent_id: string | null;
+  cwd: string | null;
+  model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number;
+  duration_ms: number;
+  reported_cost_usd: number | null;
+  created_at: number;
+};
+
+export type TokenCounts = {
+  runIds: string[];
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+};
+
+export type RunUsage = {
+  sessionId: string;
+  agentId?: string;
+  cwd?: string;
+  model?: string;
+  durationMs: number;
+  // What Letta Code put in its result, if anything
+  reportedCostUsd?: number;
+};
+
+export function getModelPrices(): PriceTable {
+  return getSetting<PriceTable>(PRICES_SETTING, {});
+}
+
+export function setModelPrices(prices: PriceTable): PriceTable {
+  const isPrice = (value: number) => Number.isFinite(value) && value >= 0;
+  const valid = Object.entries(prices)
+    .map(([model, price]) => [model.trim(), price] as const)
+    .filter(([model, price]) => model && isPrice(price.input) && isPrice(price.output));
+  const table: PriceTable = Object.fromEntries(valid.map(([model, price]) => [model, { input: price.input, output: price.output }]));
+  setSetting(PRICES_SETTING, table);
+  return table;
+}
+
+function countedRunIds(sessionId: string): Set<string> {
+  const rows = getDb()
+    .prepare("SELECT run_ids FROM usage_records WHERE session_id = ? ORDER BY created_at DESC LIMIT 5")
+    .all(sessionId) as Array<{ run_ids: string }>;
+  return new Set(rows.flatMap((row) => JSON.parse(row.run_ids) as string[]));
+}
+
+/**
+ * Tokens of the server runs a session started since a time it was not already
+ * charged for. A prompt can take several, e.g. when a tool approval resumes it.
+ */
+export async function fetchRunTokens(sessionId: string, since: number): Promise<TokenCounts> {
+  const client = getLettaClient();
+  const counted = countedRunIds(sessionId);
+  const page = await client.runs.list({ conversation_id: sessionId, order: "desc", limit: RUN_LOOKBACK });
+  const runs = page.getPaginatedItems().filter((run) => {
+    if (counted.has(run.id)) return false;
+    return !run.created_at || Date.parse(run.created_at) >= since - CLOCK_SKEW_MS;
+  });
+
+  const counts: TokenCounts = { runIds: [], promptTokens: 0, completionTokens: 0, reasoningTokens: 0 };
+  for (const run of runs) {
+    const usage = await client.runs.usage.retrieve(run.id);
+    counts.runIds.push(run.id);
+    counts.promptTokens += usage.prompt_tokens ?? 0;
+    counts.completionTokens += usage.completion_tokens ?? 0;
+    counts.reasoningTokens += usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  }
+  return counts;
+}
+
+/**
+ * Store the usage of a run that just ended. Runs whose tokens the server could not
+ * report are still recorded with their duration.
+ */
+export function recordRunUsage(run: RunUsage, tokens: TokenCounts | null): void {
+  const counts = tokens ?? { runIds: [], promptTokens: 0, completionTokens: 0, reasoningTokens: 0 };
+  getDb().prepare(`
+    INSERT INTO usage_records (
+      session_id, agent_id, cwd, model, run_ids, prompt_tokens, completion_tokens,
+      reasoning_tokens, duration_ms, reported_cost_usd, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    run.sessionId,
+    run.agentId ?? null,
+    run.cwd ?? null,
+    run.model ?? null,
+    JSON.stringify(counts.runIds),
+    counts.promptTokens,
+    counts.completionTokens,
+    counts.reasoningTokens,
+    Math.max(0, Math.round(run.durationMs)),
+    run.reportedCostUsd ?? null,
+    Date.now(),
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, durationMs: 0, costUsd: 0, unpricedRuns: 0 };
+}
+
+function estimateCost(row: UsageRow, price: ModelPrice | undefined): number | null {
+  if (price) return (row.prompt_tokens * price.input + row.completion_tokens * price.output) / 1_000_000;
+  return row.reported_cost_usd;
+}
+
+function addRow(totals: UsageTotals, row: UsageRow, prices: PriceTable): void {
+  totals.runs += 1;
+  totals.promptTokens += row.prompt_tokens;
+  totals.completionTokens += row.completion_tokens;
+  totals.reasoningTokens += row.reasoning_tokens;
+  totals.durationMs += row.duration_ms;
+  const cost = estimateCost(row, row.model ? prices[row.model] : undefined);
+  if (cost === null) totals.unpricedRuns += 1;
+  else totals.costUsd += cost;
+}
+
+function sumRows(rows: UsageRow[], prices: PriceTable): UsageTotals {
+  const totals = emptyTotals();
+  for (const row of rows) addRow(totals, row, prices);
+  return totals;
+}
+
+// Most expensive first, then the most tokens
+function groupRows(rows: UsageRow[], keyOf: (row: UsageRow) => string, prices: PriceTable): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addRow(group, row, prices);
+  }
+  return Array.from(groups.values()).sort((a, b) =>
+    b.costUsd - a.costUsd || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+}
+
+function breakdown(rows: UsageRow[], prices: PriceTable): UsageBreakdown {
+  return {
+    totals: sumRows(rows, prices),
+    byAgent: groupRows(rows, (row) => row.agent_id ?? "", prices),
+    byCwd: groupRows(rows, (row) => row.cwd ?? "", prices),
+  };
+}
+
+function localDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(daysAgo: number): number {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - daysAgo);
+  return date.getTime();
+}
+
+export function getSessionUsage(sessionId: string): UsageTotals {
+  const rows = getDb().prepare("SELECT * FROM usage_records WHERE session_id = ?").all(sessionId) as UsageRow[];
+  return sumRows(rows, getModelPrices());
+}
+
+/**
+ * Today's and the last seven days' usage, each broken down by agent and working directory.
+ */
+export function getUsageReport(): UsageReport {
+  const prices = getModelPrices();
+  const weekStart = startOfDay(REPORT_DAYS - 1);
+  const todayStart = startOfDay(0);
+  const rows = getDb()
+    .prepare("SELECT * FROM usage_records WHERE created_at >= ? ORDER BY created_at")
+    .all(weekStart) as UsageRow[];
+
+  const days = Array.from({ length: REPORT_DAYS }, (_, index) => {
+    const date = localDate(startOfDay(REPORT_DAYS - 1 - index));
+    return { date, ...sumRows(rows.filter((row) => localDate(row.created_at) === date), prices) };
+  });
+
+  return {
+    days,
+    today: breakdown(rows.filter((row) => row.created_at >= todayStart), prices),
+    week: breakdown(rows, prices),
+    prices,
+  };
+}
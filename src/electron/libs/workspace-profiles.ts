@@ -0,0 +1,66 @@
+/**
+ * Per-directory session defaults. A profile applies to its directory and
+ * everything below it; the closest one wins.
+ */
+
+import { relative, resolve, isAbsolute } from "path";
+import type { WorkspaceProfile } from "../types.js";
+import { getDb } from "./db.js";
+
+type ProfileRow = {
+  cwd: string;
+  // JSON-encoded profile without cwd and updatedAt
+  profile: string;
+  updated_at: number;
+};
+
+function toProfile(row: ProfileRow): WorkspaceProfile {
+  return { ...JSON.parse(row.profile), cwd: row.cwd, updatedAt: row.updated_at };
+}
+
+export function listWorkspaceProfiles(): WorkspaceProfile[] {
+  const rows = getDb().prepare("SELECT * FROM workspace_profiles ORDER BY cwd").all() as ProfileRow[];
+  return rows.map(toProfile);
+}
+
+function contains(directory: string, path: string): boolean {
+  const rel = relative(directory, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+export function findWorkspaceProfile(cwd: string | undefined): WorkspaceProfile | undefined {
+  if (!cwd?.trim()) return undefined;
+  const path = resolve(cwd.trim());
+  return listWorkspaceProfiles()
+    .filter((profile) => contains(profile.cwd, path))
+    .sort((a, b) => b.cwd.length - a.cwd.length)[0];
+}
+
+/**
+ * Insert or replace the profile for a directory. Empty fields are dropped so
+ * they fall back to the start modal's own defaults.
+ */
+export function saveWorkspaceProfile(profile: Omit<WorkspaceProfile, "updatedAt">): WorkspaceProfile {
+  const cwd = resolve(profile.cwd.trim());
+  const env = Object.fromEntries(
+    Object.entries(profile.env ?? {}).map(([key, value]) => [key.trim(), value]).filter(([key]) => key)
+  );
+  const stored = {
+    agentId: profile.agentId || undefined,
+    permissionMode: profile.permissionMode,
+    disabledTools: profile.disabledTools,
+    instructions: profile.instructions?.trim() || undefined,
+    env: Object.keys(env).length > 0 ? env : undefined,
+  };
+  const updatedAt = Date.now();
+
+  getDb().prepare(`
+    INSERT INTO workspace_profiles (cwd, profile, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(cwd) DO UPDATE SET profile = excluded.profile, updated_at = excluded.updated_at
+  `).run(cwd, JSON.stringify(stored), updatedAt);
+  return { ...stored, cwd, updatedAt };
+}
+
+export function deleteWorkspaceProfile(cwd: string): void {
+  getDb().prepare("DELETE FROM workspace_profiles WHERE cwd = ?").run(cwd);
+}
@@ -31,11 +31,22 @@ try {
   console.warn("Could not find letta CLI:", e);
 }
 import { getPreloadPath, getUIPath, getIconPath } from "./pathResolver.js";
-import { getStaticData, pollResources, stopPolling } from "./test.js";
+import { getStaticData, resetResourceSubscribers, setMemoryWarningMB, stopPolling, subscribeResources, unsubscribeResources } from "./test.js";
 import { handleClientEvent, cleanupAllSessions } from "./ipc-handlers.js";
+import { closeDb } from "./libs/db.js";
+import { fetchFullConversationHistory } from "./libs/history.js";
+import { listRecentCwds, removeRecentCwd } from "./libs/recent-cwds.js";
+import { closeFileIndexes, listWorkspaceFiles } from "./libs/file-index.js";
+import { deleteTemplate, exportTemplates, importTemplates, listTemplates, saveTemplate } from "./libs/templates.js";
+import { generateModelTitle, summarizePrompt } from "./libs/session-title.js";
+import { readFile, writeFile } from "fs/promises";
 import type { ClientEvent } from "./types.js";
 
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { markdown: "md", json: "json", html: "html" };
+const EXPORT_FILTER_NAMES: Record<ExportFormat, string> = { markdown: "Markdown", json: "JSON", html: "HTML" };
+
 let cleanupComplete = false;
+let cleanupRunning: Promise<void> | null = null;
 let mainWindow: BrowserWindow | null = null;
 
 function killViteDevServer(): void {
@@ -51,35 +62,38 @@ function killViteDevServer(): void {
     }
 }
 
-function cleanup(): void {
-    if (cleanupComplete) return;
-    cleanupComplete = true;
-
+async function cleanup(): Promise<void> {
     globalShortcut.unregisterAll();
     stopPolling();
-    cleanupAllSessions();
+    // Runs still write to the database until they are stopped
+    await cleanupAllSessions();
+    closeFileIndexes();
+    closeDb();
     killViteDevServer();
 }
 
-function handleSignal(): void {
-    cleanup();
-    app.quit();
+// Holds the quit until cleanup has finished, then quits for real
+function quitAfterCleanup(event?: Electron.Event): void {
+    if (cleanupComplete) return;
+    event?.preventDefault();
+    if (cleanupRunning) return;
+    cleanupRunning = cleanup().finally(() => {
+        cleanupComplete = true;
+        app.quit();
+    });
 }
 
 // Initialize everything when app is ready
 app.on("ready", () => {
     Menu.setApplicationMenu(null);
     // Setup event handlers
-    app.on("before-quit", cleanup);
-    app.on("will-quit", cleanup);
-    app.on("window-all-closed", () => {
-        cleanup();
-        app.quit();
-    });
+    app.on("before-quit", quitAfterCleanup);
+    app.on("will-quit", quitAfterCleanup);
+    app.on("window-all-closed", () => quitAfterCleanup());
 
-    process.on("SIGTERM", handleSignal);
-    process.on("SIGINT", handleSignal);
-    process.on("SIGHUP", handleSignal);
+    process.on("SIGTERM", () => quitAfterCleanup());
+    process.on("SIGINT", () => quitAfterCleanup());
+    process.on("SIGHUP", () => quitAfterCleanup());
 
     // Create main window
     mainWindow = new BrowserWindow({
@@ -99,25 +113,50 @@ app.on("ready", () => {
     if (isDev()) mainWindow.loadURL(`http://localhost:${DEV_PORT}`)
     else mainWindow.loadFile(getUIPath());
 
-    globalShortcut.register('CommandOrControl+Q', () => {
-        cleanup();
-        app.quit();
-    });
+    globalShortcut.register('CommandOrControl+Q', () => quitAfterCleanup());
 
-    pollResources(mainWindow);
+    mainWindow.webContents.on("did-start-loading", resetResourceSubscribers);
 
     ipcMainHandle("getStaticData", () => {
         return getStaticData();
     });
 
+    // Resources are only polled while the UI shows them
+    ipcMainHandle("start-statistics", () => {
+        if (mainWindow) subscribeResources(mainWindow);
+    });
+
+    ipcMainHandle("stop-statistics", () => {
+        unsubscribeResources();
+    });
+
+    ipcMainHandle("set-memory-warning", (_, megabytes: number) => {
+        return setMemoryWarningMB(megabytes);
+    });
+
     // Handle client events
     ipcMain.on("client-event", (_: Electron.IpcMainEvent, event: ClientEvent) => {
         handleClientEvent(event);
     });
 
-    // Handle recent cwds request (simplified - no local storage)
-    ipcMainHandle("get-recent-cwds", () => {
-        return [process.cwd()]; // Just return current directory
+    // Title from the agent's model when the session already has a conversation, else from the prompt
+    ipcMainHandle("generate-session-title", async (_, prompt: string, sessionId?: string) => {
+        const modelTitle = sessionId ? await generateModelTitle(sessionId) : null;
+        return modelTitle ?? summarizePrompt(prompt);
+    });
+
+    // Directories used by earlier sessions, most recent first
+    ipcMainHandle("get-recent-cwds", (_, limit?: number) => {
+        return listRecentCwds(limit);
+    });
+
+    ipcMainHandle("remove-recent-cwd", (_, path: string) => {
+        removeRecentCwd(path);
+    });
+
+    // Files offered for `@` mentions in prompts
+    ipcMainHandle("list-workspace-files", (_, cwd: string) => {
+        return listWorkspaceFiles(cwd);
     });
 
     // Handle directory selection
@@ -132,4 +171,80 @@ app.on("ready", () => {
 
         return result.filePaths[0];
     });
+
+    // Full transcript for exports; the UI may only hold the latest pages
+    ipcMainHandle("get-session-messages", (_, sessionId: string) => {
+        return fetchFullConversationHistory(sessionId);
+    });
+
+    // Handle transcript export
+    ipcMainHandle("export-session", async (_, content: string, format: ExportFormat, defaultName: string) => {
+        const result = await dialog.showSaveDialog(mainWindow!, {
+            defaultPath: `${defaultName}.${EXPORT_EXTENSIONS[format]}`,
+            filters: [{ name: EXPORT_FILTER_NAMES[format], extensions: [EXPORT_EXTENSIONS[format]] }]
+        });
+
+        if (result.canceled || !result.filePath) {
+            return null;
+        }
+
+        await writeFile(result.filePath, content, "utf8");
+        return result.filePath;
+    });
+
+    // Handle transcript import; the renderer parses and validates the JSON
+    ipcMainHandle("import-transcript", async () => {
+        const result = await dialog.showOpenDialog(mainWindow!, {
+            properties: ['openFile'],
+            filters: [{ name: "JSON transcript", extensions: ["json"] }]
+        });
+
+        if (result.canceled) {
+            return null;
+        }
+
+        return readFile(result.filePaths[0], "utf8");
+    });
+
+    // Prompt templates from the library and the working directory
+    ipcMainHandle("list-templates", (_, cwd?: string) => {
+        return listTemplates(cwd);
+    });
+
+    ipcMainHandle("save-template", (_, template: PromptTemplateInput, cwd?: string) => {
+        return saveTemplate(template, cwd);
+    });
+
+    // Workspace templates are only touched under the cwd passed along
+    ipcMainHandle("delete-template", (_, path: string, cwd?: string) => {
+        return deleteTemplate(path, cwd);
+    });
+
+    ipcMainHandle("export-templates", async (_, paths: string[], cwd?: string) => {
+        const result = await dialog.showSaveDialog(mainWindow!, {
+            defaultPath: "prompt-templates.json",
+            filters: [{ name: "Prompt templates", extensions: ["json"] }]
+        });
+
+        if (result.canceled || !result.filePath) {
+            return null;
+        }
+
+        await writeFile(result.filePath, await exportTemplates(paths, cwd), "utf8");
+        return result.filePath;
+    });
+
+    // Bundles from an export, or single Markdown templates
+    ipcMainHandle("import-templates", async () => {
+        const result = await dialog.showOpenDialog(mainWindow!, {
+            properties: ['openFile', 'multiSelections'],
+            filters: [{ name: "Prompt templates", extensions: ["json", "md"] }]
+        });
+
+        if (result.canceled) {
+            return [];
+        }
+
+        return importTemplates(result.filePaths);
+    });
 })
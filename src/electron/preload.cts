@@ -1,11 +1,20 @@
 import electron from "electron";
 
 electron.contextBridge.exposeInMainWorld("electron", {
-    subscribeStatistics: (callback) =>
-        ipcOn("statistics", stats => {
+    // The main process only polls while someone is subscribed
+    subscribeStatistics: (callback) => {
+        const unsubscribe = ipcOn("statistics", stats => {
             callback(stats);
-        }),
+        });
+        ipcInvoke("start-statistics");
+        return () => {
+            unsubscribe();
+            ipcInvoke("stop-statistics");
+        };
+    },
     getStaticData: () => ipcInvoke("getStaticData"),
+    setMemoryWarning: (megabytes: number) =>
+        ipcInvoke("set-memory-warning", megabytes),
     
     // Letta Agent IPC APIs
     sendClientEvent: (event: any) => {
@@ -24,10 +33,34 @@ electron.contextBridge.exposeInMainWorld("electron", {
         return () => electron.ipcRenderer.off("server-event", cb);
     },
 
+    generateSessionTitle: (prompt: string, sessionId?: string) =>
+        ipcInvoke("generate-session-title", prompt, sessionId),
     getRecentCwds: (limit?: number) => 
         ipcInvoke("get-recent-cwds", limit),
+    removeRecentCwd: (path: string) =>
+        ipcInvoke("remove-recent-cwd", path),
+    listWorkspaceFiles: (cwd: string) =>
+        ipcInvoke("list-workspace-files", cwd),
+    getPathForFile: (file: File) =>
+        electron.webUtils.getPathForFile(file),
     selectDirectory: () => 
-        ipcInvoke("select-directory")
+        ipcInvoke("select-directory"),
+    getSessionMessages: (sessionId: string) =>
+        ipcInvoke("get-session-messages", sessionId),
+    exportSession: (content: string, format: ExportFormat, defaultName: string) =>
+        ipcInvoke("export-session", content, format, defaultName),
+    importTranscript: () =>
+        ipcInvoke("import-transcript"),
+    listTemplates: (cwd?: string) =>
+        ipcInvoke("list-templates", cwd),
+    saveTemplate: (template: PromptTemplateInput, cwd?: string) =>
+        ipcInvoke("save-template", template, cwd),
+    deleteTemplate: (path: string, cwd?: string) =>
+        ipcInvoke("delete-template", path, cwd),
+    exportTemplates: (paths: string[], cwd?: string) =>
+        ipcInvoke("export-templates", paths, cwd),
+    importTemplates: () =>
+        ipcInvoke("import-templates")
 } satisfies Window['electron'])
 
 function ipcInvoke<Key extends keyof EventPayloadMapping>(key: Key, ...args: any[]): Promise<EventPayloadMapping[Key]> {
@@ -3,27 +3,44 @@ import fs from "fs"
 import os from "os"
 import { BrowserWindow } from "electron";
 import { ipcWebContentsSend } from "./util.js";
+import { listCliProcesses } from "./libs/runner.js";
+import { sampleProcesses } from "./libs/process-metrics.js";
+import { getSetting, setSetting } from "./libs/settings.js";
 
 const POLLING_INTERVAL = 500;
+const MEMORY_WARNING_SETTING = "memoryWarningMB";
+const DEFAULT_MEMORY_WARNING_MB = 2048;
 
 let pollingIntervalId: ReturnType<typeof setInterval> | null = null;
+// Open resource panels; polling runs while there is at least one
+let subscribers = 0;
 
 export function pollResources(mainWindow: BrowserWindow): void {
+    if (pollingIntervalId) return;
+    // A slow sample is skipped over rather than stacked up
+    let sampling = false;
     pollingIntervalId = setInterval(async () => {
         if (mainWindow.isDestroyed()) {
             stopPolling();
             return;
         }
-        const cpuUsage = await getCPUUsage();
-        const storageData = getStorageData();
-        const ramUsage = getRamUsage();
+        if (sampling) return;
+        sampling = true;
+        try {
+            const cpuUsage = await getCPUUsage();
+            const storageData = getStorageData();
+            const ramUsage = getRamUsage();
+            const processes = await getProcessStatistics();
 
-        if (mainWindow.isDestroyed()) {
-            stopPolling();
-            return;
-        }
+            if (mainWindow.isDestroyed()) {
+                stopPolling();
+                return;
+            }
 
-        ipcWebContentsSend("statistics", mainWindow.webContents, { cpuUsage, ramUsage, storageData: storageData.usage });
+            ipcWebContentsSend("statistics", mainWindow.webContents, { cpuUsage, ramUsage, storageData: storageData.usage, processes });
+        } finally {
+            sampling = false;
+        }
     }, POLLING_INTERVAL);
 }
 
@@ -34,6 +51,31 @@ export function stopPolling(): void {
     }
 }
 
+export function subscribeResources(mainWindow: BrowserWindow): void {
+    subscribers++;
+    pollResources(mainWindow);
+}
+
+export function unsubscribeResources(): void {
+    subscribers = Math.max(0, subscribers - 1);
+    if (subscribers === 0) stopPolling();
+}
+
+// A reloaded window drops its subscriptions without saying so
+export function resetResourceSubscribers(): void {
+    subscribers = 0;
+    stopPolling();
+}
+
+export function getMemoryWarningMB(): number {
+    return getSetting(MEMORY_WARNING_SETTING, DEFAULT_MEMORY_WARNING_MB);
+}
+
+export function setMemoryWarningMB(megabytes: number): number {
+    if (Number.isFinite(megabytes) && megabytes > 0) setSetting(MEMORY_WARNING_SETTING, Math.round(megabytes));
+    return getMemoryWarningMB();
+}
+
 export function getStaticData() {
     const totalStorage = getStorageData().total;
     const cpuModel = os.cpus()[0].model;
@@ -42,10 +84,23 @@ export function getStaticData() {
     return {
         totalStorage,
         cpuModel,
-        totalMemoryGB
+        totalMemoryGB,
+        memoryWarningMB: getMemoryWarningMB()
     }
 }
 
+async function getProcessStatistics(): Promise<ProcessStatistics[]> {
+    const cliProcesses = listCliProcesses();
+    const samples = await sampleProcesses(cliProcesses.map((cliProcess) => cliProcess.pid));
+    const now = Date.now();
+    return cliProcesses.map((cliProcess) => ({
+        pid: cliProcess.pid,
+        sessionId: cliProcess.sessionId,
+        runtimeMs: now - cliProcess.startedAt,
+        ...samples.get(cliProcess.pid)
+    }));
+}
+
 function getCPUUsage(): Promise<number> {
     return new Promise(resolve => {
         osUtils.cpuUsage(resolve);
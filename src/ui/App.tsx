@@ -1,16 +1,29 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import type { CanUseToolResponse } from "./types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ApprovalScope, CanUseToolResponse, PriceTable, SessionOrganization, StreamMessage, WorkspaceProfile } from "./types";
 import { useIPC } from "./hooks/useIPC";
 import { useMessageWindow } from "./hooks/useMessageWindow";
+import { useReplay } from "./hooks/useReplay";
 import { useAppStore } from "./store/useAppStore";
 import type { ServerEvent } from "./types";
 import { Sidebar } from "./components/Sidebar";
 import { StartSessionModal } from "./components/StartSessionModal";
 import { PromptInput, usePromptActions } from "./components/PromptInput";
 import { MessageCard } from "./components/EventCard";
+import { DecisionPanel } from "./components/DecisionPanel";
+import { MemoryPanel } from "./components/MemoryPanel";
+import { ReplayBar } from "./components/ReplayBar";
+import { WorkspaceProfileDialog } from "./components/WorkspaceProfileDialog";
+import { ModelSelect } from "./components/ModelSelect";
+import { UsageDashboard } from "./components/UsageDashboard";
+import { TemplateLibraryDialog } from "./components/TemplateLibraryDialog";
+import { parseTranscript } from "./render/export";
 import MDContent from "./render/markdown";
+import { indexToolCalls } from "./tools";
+import { findWorkspaceProfile } from "./workspace-profiles";
 
 const SCROLL_THRESHOLD = 50;
+const SEARCH_HIGHLIGHT_MS = 2000;
+const DRAFT_SAVE_DELAY_MS = 500;
 
 function App() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -21,6 +34,7 @@ function App() {
   const [showPartialMessage, setShowPartialMessage] = useState(false);
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
   const [hasNewMessages, setHasNewMessages] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
   const prevMessagesLengthRef = useRef(0);
   const scrollHeightBeforeLoadRef = useRef(0);
   const shouldRestoreScrollRef = useRef(false);
@@ -33,17 +47,52 @@ function App() {
   const setGlobalError = useAppStore((s) => s.setGlobalError);
   const historyRequested = useAppStore((s) => s.historyRequested);
   const markHistoryRequested = useAppStore((s) => s.markHistoryRequested);
+  const setHistoryLoading = useAppStore((s) => s.setHistoryLoading);
   const resolvePermissionRequest = useAppStore((s) => s.resolvePermissionRequest);
+  const removeSession = useAppStore((s) => s.removeSession);
+  const renameSession = useAppStore((s) => s.renameSession);
+  const organizeSession = useAppStore((s) => s.organizeSession);
+  const openTranscript = useAppStore((s) => s.openTranscript);
   const handleServerEvent = useAppStore((s) => s.handleServerEvent);
   const prompt = useAppStore((s) => s.prompt);
   const setPrompt = useAppStore((s) => s.setPrompt);
+  const draftsLoaded = useAppStore((s) => s.draftsLoaded);
+  const templateLibrary = useAppStore((s) => s.templateLibrary);
+  const setTemplateLibrary = useAppStore((s) => s.setTemplateLibrary);
   const cwd = useAppStore((s) => s.cwd);
   const setCwd = useAppStore((s) => s.setCwd);
-  const pendingStart = useAppStore((s) => s.pendingStart);
+  const permissionMode = useAppStore((s) => s.permissionMode);
+  const setPermissionMode = useAppStore((s) => s.setPermissionMode);
+  const disabledTools = useAppStore((s) => s.disabledTools);
+  const setDisabledTools = useAppStore((s) => s.setDisabledTools);
+  const pendingStartId = useAppStore((s) => s.pendingStartId);
+  const runQueue = useAppStore((s) => s.runQueue);
+  const agents = useAppStore((s) => s.agents);
+  const agentsLoaded = useAppStore((s) => s.agentsLoaded);
+  const selectedAgentId = useAppStore((s) => s.selectedAgentId);
+  const setSelectedAgentId = useAppStore((s) => s.setSelectedAgentId);
+  const models = useAppStore((s) => s.models);
+  const selectedModel = useAppStore((s) => s.selectedModel);
+  const setSelectedModel = useAppStore((s) => s.setSelectedModel);
+  const memory = useAppStore((s) => s.memory);
+  const showMemoryPanel = useAppStore((s) => s.showMemoryPanel);
+  const setShowMemoryPanel = useAppStore((s) => s.setShowMemoryPanel);
+  const searchTarget = useAppStore((s) => s.searchTarget);
+  const setSearchTarget = useAppStore((s) => s.setSearchTarget);
+  const replaceSessionMessages = useAppStore((s) => s.replaceSessionMessages);
+  const workspaceProfiles = useAppStore((s) => s.workspaceProfiles);
+  const profileEditorCwd = useAppStore((s) => s.profileEditorCwd);
+  const setProfileEditorCwd = useAppStore((s) => s.setProfileEditorCwd);
+  const usage = useAppStore((s) => s.usage);
+  const usageReport = useAppStore((s) => s.usageReport);
+  const showUsageDashboard = useAppStore((s) => s.showUsageDashboard);
+  const setShowUsageDashboard = useAppStore((s) => s.setShowUsageDashboard);
 
   // Handle partial messages from stream events
   const handlePartialMessages = useCallback((partialEvent: ServerEvent) => {
     if (partialEvent.type !== "stream.message" || partialEvent.payload.message.type !== "stream_event") return;
+    // Other sessions stream concurrently; only the open one is shown
+    if (partialEvent.payload.sessionId !== useAppStore.getState().activeSessionId) return;
 
     const message = partialEvent.payload.message as { type: "stream_event"; event: { type: string; delta?: { text?: string; reasoning?: string } } };
     const event = message.event;
@@ -84,9 +133,48 @@ function App() {
   const { handleStartFromModal } = usePromptActions(sendEvent);
 
   const activeSession = activeSessionId ? sessions[activeSessionId] : undefined;
-  const messages = activeSession?.messages ?? [];
+  const isReadOnly = activeSession?.readOnly ?? false;
+  const replayControls = useReplay(isReadOnly ? activeSession : undefined);
+  const allMessages = activeSession?.messages;
+  const replayPosition = activeSession?.replay?.position;
+  // During replay only the messages played so far are shown
+  const messages = useMemo(() => {
+    if (!allMessages) return [];
+    return replayPosition === undefined ? allMessages : allMessages.slice(0, replayPosition);
+  }, [allMessages, replayPosition]);
+  const toolCalls = useMemo(() => indexToolCalls(messages), [messages]);
   const permissionRequests = activeSession?.permissionRequests ?? [];
   const isRunning = activeSession?.status === "running";
+  // AskUserQuestion renders inline in its tool card; other approvals sit at the end of the transcript
+  const toolApprovalRequest = permissionRequests.find((req) => req.toolName !== "AskUserQuestion");
+  const historyCursor = activeSession?.historyCursor;
+  const activeMemory = activeSessionId ? memory[activeSessionId] : undefined;
+  const activeAgentId = activeSession?.agentId ?? activeMemory?.agentId;
+  const activeUsage = activeSessionId ? usage[activeSessionId] : undefined;
+  const activeAgent = activeAgentId ? agents.find((agent) => agent.id === activeAgentId) : undefined;
+  // The model the latest run reported, for sessions that never picked one
+  const reportedModel = useMemo(() => {
+    const list = allMessages ?? [];
+    for (let i = list.length - 1; i >= 0; i--) {
+      const message = list[i];
+      if (message.type === "init") return message.model;
+    }
+    return undefined;
+  }, [allMessages]);
+  const activeProfile = isReadOnly ? undefined : findWorkspaceProfile(workspaceProfiles, activeSession?.cwd);
+  const startProfile = useMemo(() => findWorkspaceProfile(workspaceProfiles, cwd), [workspaceProfiles, cwd]);
+
+  const loadOlderHistory = useCallback(() => {
+    if (!activeSessionId || !historyCursor) return;
+    setHistoryLoading(activeSessionId, true);
+    sendEvent({ type: "session.history", payload: { sessionId: activeSessionId, before: historyCursor } });
+  }, [activeSessionId, historyCursor, sendEvent, setHistoryLoading]);
+
+  const remoteHistory = useMemo(() => ({
+    hasMore: activeSession?.hasMoreHistory ?? false,
+    isLoading: activeSession?.loadingHistory ?? false,
+    loadOlder: loadOlderHistory,
+  }), [activeSession?.hasMoreHistory, activeSession?.loadingHistory, loadOlderHistory]);
 
   const {
     visibleMessages,
@@ -94,14 +182,50 @@ function App() {
     isLoadingHistory,
     loadMoreMessages,
     resetToLatest,
+    revealMessage,
     totalMessages,
-  } = useMessageWindow(messages, permissionRequests, activeSessionId);
+  } = useMessageWindow(messages, permissionRequests, activeSessionId, remoteHistory);
 
   // 启动时检查 API 配置
   useEffect(() => {
-    if (connected) sendEvent({ type: "session.list" });
+    if (!connected) return;
+    sendEvent({ type: "session.list" });
+    sendEvent({ type: "agents.list" });
+    sendEvent({ type: "profiles.list" });
+    sendEvent({ type: "models.list" });
+    sendEvent({ type: "drafts.list" });
   }, [connected, sendEvent]);
 
+  // The working directory's profile fills in the start modal's defaults
+  useEffect(() => {
+    if (!showStartModal || !startProfile) return;
+    if (startProfile.agentId) setSelectedAgentId(startProfile.agentId);
+    if (startProfile.permissionMode) setPermissionMode(startProfile.permissionMode);
+    if (startProfile.disabledTools) setDisabledTools(startProfile.disabledTools);
+  }, [showStartModal, startProfile, setSelectedAgentId, setPermissionMode, setDisabledTools]);
+
+  // Memory is pushed around runs; fetch it once when the panel first shows a session
+  useEffect(() => {
+    if (!connected || !showMemoryPanel || !activeSessionId || activeMemory || isReadOnly) return;
+    sendEvent({ type: "memory.list", payload: { sessionId: activeSessionId } });
+  }, [connected, showMemoryPanel, activeSessionId, activeMemory, isReadOnly, sendEvent]);
+
+  // Usage is pushed after each run; fetch it once when a session is first shown
+  useEffect(() => {
+    if (!connected || !activeSessionId || activeUsage || isReadOnly) return;
+    sendEvent({ type: "usage.session", payload: { sessionId: activeSessionId } });
+  }, [connected, activeSessionId, activeUsage, isReadOnly, sendEvent]);
+
+  // The open dashboard follows new runs as their usage comes in
+  useEffect(() => {
+    if (connected && showUsageDashboard) sendEvent({ type: "usage.report" });
+  }, [connected, showUsageDashboard, usage, sendEvent]);
+
+  // Refresh agents (and their last used times) whenever the start modal opens
+  useEffect(() => {
+    if (connected && showStartModal) sendEvent({ type: "agents.list" });
+  }, [connected, showStartModal, sendEvent]);
+
   useEffect(() => {
     if (!activeSessionId || !connected) return;
     const session = sessions[activeSessionId];
@@ -111,6 +235,25 @@ function App() {
     }
   }, [activeSessionId, connected, sessions, historyRequested, markHistoryRequested, sendEvent]);
 
+  // Save the draft once typing pauses; imported transcripts have nowhere to keep one
+  const draftSessionId = draftsLoaded && activeSession && !activeSession.readOnly ? activeSession.id : null;
+  useEffect(() => {
+    if (!connected || !draftSessionId) return;
+    const timer = window.setTimeout(() => {
+      sendEvent({ type: "drafts.save", payload: { sessionId: draftSessionId, text: prompt } });
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [connected, draftSessionId, prompt, sendEvent]);
+
+  // Switching away cancels the pending save above, so the left session's draft is saved now
+  useEffect(() => {
+    if (!connected || !draftSessionId) return;
+    return () => {
+      const text = useAppStore.getState().drafts[draftSessionId];
+      if (text !== undefined) sendEvent({ type: "drafts.save", payload: { sessionId: draftSessionId, text } });
+    };
+  }, [connected, draftSessionId, sendEvent]);
+
   const handleScroll = useCallback(() => {
     const container = scrollContainerRef.current;
     if (!container) return;
@@ -187,6 +330,31 @@ function App() {
     prevMessagesLengthRef.current = messages.length;
   }, [messages, partialMessage, shouldAutoScroll]);
 
+  // Bring a search hit into view once its session shows it
+  useEffect(() => {
+    if (!searchTarget || searchTarget.sessionId !== activeSessionId) return;
+    const { position } = searchTarget;
+    if (position >= messages.length) return;
+    if (!visibleMessages.some((item) => item.originalIndex === position)) {
+      revealMessage(position);
+      return;
+    }
+    // Runs after the session switch has scrolled to the bottom
+    const timer = window.setTimeout(() => {
+      setShouldAutoScroll(false);
+      scrollContainerRef.current?.querySelector(`[data-message-index="${position}"]`)?.scrollIntoView({ block: "center" });
+      setHighlightedIndex(position);
+      setSearchTarget(null);
+    }, 150);
+    return () => window.clearTimeout(timer);
+  }, [searchTarget, activeSessionId, messages.length, visibleMessages, revealMessage, setSearchTarget]);
+
+  useEffect(() => {
+    if (highlightedIndex === null) return;
+    const timer = window.setTimeout(() => setHighlightedIndex(null), SEARCH_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timer);
+  }, [highlightedIndex]);
+
   const scrollToBottom = useCallback(() => {
     setShouldAutoScroll(true);
     setHasNewMessages(false);
@@ -200,12 +368,125 @@ function App() {
   }, [setShowStartModal]);
 
   const handleDeleteSession = useCallback((sessionId: string) => {
+    if (useAppStore.getState().sessions[sessionId]?.readOnly) {
+      removeSession(sessionId);
+      return;
+    }
     sendEvent({ type: "session.delete", payload: { sessionId } });
+  }, [removeSession, sendEvent]);
+
+  // Imported transcripts only exist in the renderer, so they are renamed locally
+  const handleRenameSession = useCallback((sessionId: string, title: string) => {
+    if (useAppStore.getState().sessions[sessionId]?.readOnly) {
+      renameSession(sessionId, title);
+      return;
+    }
+    sendEvent({ type: "session.rename", payload: { sessionId, title } });
+  }, [renameSession, sendEvent]);
+
+  const handleOrganizeSession = useCallback((sessionId: string, updates: SessionOrganization) => {
+    if (useAppStore.getState().sessions[sessionId]?.readOnly) {
+      organizeSession(sessionId, updates);
+      return;
+    }
+    sendEvent({ type: "session.update", payload: { sessionId, ...updates } });
+  }, [organizeSession, sendEvent]);
+
+  const handleGenerateTitle = useCallback(async (sessionId: string) => {
+    const session = useAppStore.getState().sessions[sessionId];
+    if (!session) return;
+    const firstPrompt = session.messages.find((message) => message.type === "user_prompt");
+    const prompt = firstPrompt?.type === "user_prompt" ? firstPrompt.prompt : session.lastPrompt ?? "";
+    try {
+      const title = await window.electron.generateSessionTitle(prompt, session.readOnly ? undefined : sessionId);
+      handleRenameSession(sessionId, title);
+    } catch (error) {
+      setGlobalError(`Could not generate a title: ${String(error)}`);
+    }
+  }, [handleRenameSession, setGlobalError]);
+
+  const handleSelectSessionModel = useCallback((model: string | null) => {
+    if (!activeSessionId || !model) return;
+    sendEvent({ type: "session.setModel", payload: { sessionId: activeSessionId, model } });
+  }, [activeSessionId, sendEvent]);
+
+  // A template goes below whatever is already typed
+  const handleApplyTemplate = useCallback((text: string) => {
+    const current = useAppStore.getState().prompt;
+    setPrompt(current.trim() ? `${current.trimEnd()}\n\n${text}` : text);
+  }, [setPrompt]);
+
+  const handleSaveProfile = useCallback((profile: Omit<WorkspaceProfile, "updatedAt">) => {
+    sendEvent({ type: "profiles.save", payload: { profile } });
+  }, [sendEvent]);
+
+  const handleDeleteProfile = useCallback((profileCwd: string) => {
+    sendEvent({ type: "profiles.delete", payload: { cwd: profileCwd } });
+  }, [sendEvent]);
+
+  const handleSaveModelPrices = useCallback((prices: PriceTable) => {
+    sendEvent({ type: "usage.setPrices", payload: { prices } });
+  }, [sendEvent]);
+
+  const handleImportTranscript = useCallback(async () => {
+    try {
+      const text = await window.electron.importTranscript();
+      if (text === null) return;
+      openTranscript(parseTranscript(text));
+    } catch (error) {
+      setGlobalError(`Could not open transcript: ${String(error)}`);
+    }
+  }, [openTranscript, setGlobalError]);
+
+  const handleSearch = useCallback((query: string) => {
+    sendEvent({ type: "search.query", payload: { query } });
   }, [sendEvent]);
 
-  const handlePermissionResult = useCallback((toolUseId: string, result: CanUseToolResponse) => {
+  // Hit positions count messages of the full server history, so load all of it first.
+  // A session with a run in progress keeps its live messages; the hit may then be off.
+  const handleOpenSearchHit = useCallback(async (sessionId: string, position: number) => {
+    const session = useAppStore.getState().sessions[sessionId];
+    if (session?.status !== "running" && session?.status !== "queued") {
+      try {
+        replaceSessionMessages(sessionId, (await window.electron.getSessionMessages(sessionId)) as StreamMessage[]);
+      } catch (error) {
+        setGlobalError(`Could not load session history: ${String(error)}`);
+        return;
+      }
+    }
+    useAppStore.getState().setActiveSessionId(sessionId);
+    setSearchTarget({ sessionId, position });
+  }, [replaceSessionMessages, setGlobalError, setSearchTarget]);
+
+  const handleSetRunLimit = useCallback((limit: number) => {
+    sendEvent({ type: "runs.setLimit", payload: { limit } });
+  }, [sendEvent]);
+
+  const handleCancelQueuedRun = useCallback((runId: string) => {
+    sendEvent({ type: "runs.cancel", payload: { runId } });
+  }, [sendEvent]);
+
+  const handleCreateAgent = useCallback((name: string, persona: string) => {
+    sendEvent({ type: "agents.create", payload: { name, persona: persona || undefined } });
+  }, [sendEvent]);
+
+  const handleCloneAgent = useCallback((agentId: string, name: string) => {
+    sendEvent({ type: "agents.clone", payload: { agentId, name } });
+  }, [sendEvent]);
+
+  const handleRefreshMemory = useCallback(() => {
+    if (!activeSessionId) return;
+    sendEvent({ type: "memory.list", payload: { sessionId: activeSessionId } });
+  }, [activeSessionId, sendEvent]);
+
+  const handleSaveMemoryBlock = useCallback((label: string, value: string) => {
+    if (!activeSessionId) return;
+    sendEvent({ type: "memory.update", payload: { sessionId: activeSessionId, label, value } });
+  }, [activeSessionId, sendEvent]);
+
+  const handlePermissionResult = useCallback((toolUseId: string, result: CanUseToolResponse, scope?: ApprovalScope) => {
     if (!activeSessionId) return;
-    sendEvent({ type: "permission.response", payload: { sessionId: activeSessionId, toolUseId, result } });
+    sendEvent({ type: "permission.response", payload: { sessionId: activeSessionId, toolUseId, result, scope } });
     resolvePermissionRequest(activeSessionId, toolUseId);
   }, [activeSessionId, sendEvent, resolvePermissionRequest]);
 
@@ -221,16 +502,70 @@ function App() {
         connected={connected}
         onNewSession={handleNewSession}
         onDeleteSession={handleDeleteSession}
+        onRenameSession={handleRenameSession}
+        onGenerateTitle={handleGenerateTitle}
+        onOrganizeSession={handleOrganizeSession}
+        onImportTranscript={handleImportTranscript}
+        onSetRunLimit={handleSetRunLimit}
+        onCancelQueuedRun={handleCancelQueuedRun}
+        onSearch={handleSearch}
+        onOpenSearchHit={handleOpenSearchHit}
       />
 
-      <main className="flex flex-1 flex-col ml-[280px] bg-surface-cream">
+      <main className="flex min-w-0 flex-1 flex-col ml-[280px] bg-surface-cream">
         <div
-          className="flex items-center justify-center h-12 border-b border-ink-900/10 bg-surface-cream select-none"
+          className="relative flex items-center justify-center h-12 border-b border-ink-900/10 bg-surface-cream select-none"
           style={{ WebkitAppRegion: 'drag' } as React.CSSProperties}
         >
           <span className="text-sm font-medium text-ink-700">{activeSession?.title || "Letta Cowork"}</span>
+          {activeAgentId && (
+            <span className="ml-2 truncate rounded-full bg-surface-tertiary px-2 py-0.5 text-[11px] text-muted" title={activeAgentId}>
+              {activeAgent?.name ?? activeAgentId}
+            </span>
+          )}
+          {activeSession && !isReadOnly && (
+            <ModelSelect
+              className="ml-2 max-w-[220px] truncate rounded-full border-none bg-surface-tertiary px-2 py-0.5 text-[11px] text-muted hover:text-ink-700 focus:outline-none disabled:opacity-60"
+              models={models}
+              value={activeSession.model ?? null}
+              defaultLabel={reportedModel ?? "Agent's model"}
+              onChange={handleSelectSessionModel}
+              // The running CLI keeps its model until the run ends
+              disabled={isRunning || activeSession.status === "queued"}
+            />
+          )}
+          {activeProfile && (
+            <button
+              className="ml-2 truncate rounded-full bg-accent/10 px-2 py-0.5 text-[11px] text-accent hover:bg-accent/20 transition-colors"
+              style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+              onClick={() => setProfileEditorCwd(activeProfile.cwd)}
+              title={`Workspace profile for ${activeProfile.cwd}. Click to edit.`}
+            >
+              Profile: {activeProfile.cwd.split(/[\\/]/).filter(Boolean).pop() ?? activeProfile.cwd}
+            </button>
+          )}
+          {activeSessionId && !isReadOnly && !showMemoryPanel && (
+            <button
+              className="absolute right-4 rounded-full px-3 py-1 text-xs text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors"
+              style={{ WebkitAppRegion: 'no-drag' } as React.CSSProperties}
+              onClick={() => setShowMemoryPanel(true)}
+            >
+              Memory
+            </button>
+          )}
         </div>
 
+        {isReadOnly && (
+          <ReplayBar
+            replay={replayControls.replay}
+            total={replayControls.total}
+            onPlay={replayControls.play}
+            onPause={replayControls.pause}
+            onSpeedChange={replayControls.setSpeed}
+            onExit={replayControls.exit}
+          />
+        )}
+
         <div
           ref={scrollContainerRef}
           onScroll={handleScroll}
@@ -268,17 +603,32 @@ function App() {
               </div>
             ) : (
               visibleMessages.map((item, idx) => (
-                <MessageCard
+                <div
                   key={`${activeSessionId}-msg-${item.originalIndex}`}
-                  message={item.message}
-                  isLast={idx === visibleMessages.length - 1}
-                  isRunning={isRunning}
-                  permissionRequest={permissionRequests[0]}
-                  onPermissionResult={handlePermissionResult}
-                />
+                  data-message-index={item.originalIndex}
+                  className={highlightedIndex === item.originalIndex ? "rounded-xl ring-2 ring-accent/30 ring-offset-4 ring-offset-surface-cream transition-shadow" : undefined}
+                >
+                  <MessageCard
+                    message={item.message}
+                    isLast={idx === visibleMessages.length - 1}
+                    isRunning={isRunning}
+                    permissionRequest={permissionRequests[0]}
+                    onPermissionResult={handlePermissionResult}
+                    toolCall={item.message.type === "tool_result" ? toolCalls.get(item.message.toolCallId) : undefined}
+                  />
+                </div>
               ))
             )}
 
+            {toolApprovalRequest && (
+              <div className="mt-4">
+                <DecisionPanel
+                  request={toolApprovalRequest}
+                  onSubmit={(result, scope) => handlePermissionResult(toolApprovalRequest.toolUseId, result, scope)}
+                />
+              </div>
+            )}
+
             {/* Partial message display with skeleton loading */}
             {partialMessage && (
               <div className="partial-message mt-4">
@@ -301,7 +651,7 @@ function App() {
           </div>
         </div>
 
-        <PromptInput sendEvent={sendEvent} onSendMessage={handleSendMessage} disabled={visibleMessages.length === 0} />
+        <PromptInput sendEvent={sendEvent} onSendMessage={handleSendMessage} disabled={visibleMessages.length === 0 || isReadOnly} />
 
         {hasNewMessages && !shouldAutoScroll && (
           <button
@@ -316,18 +666,77 @@ function App() {
         )}
       </main>
 
+      {showMemoryPanel && activeSessionId && !isReadOnly && (
+        <MemoryPanel
+          memory={activeMemory}
+          agentName={activeAgent?.name}
+          onRefresh={handleRefreshMemory}
+          onSave={handleSaveMemoryBlock}
+          onClose={() => setShowMemoryPanel(false)}
+        />
+      )}
+
       {showStartModal && (
         <StartSessionModal
           cwd={cwd}
           prompt={prompt}
-          pendingStart={pendingStart}
+          permissionMode={permissionMode}
+          disabledTools={disabledTools}
+          agents={agents}
+          agentsLoaded={agentsLoaded}
+          selectedAgentId={selectedAgentId}
+          models={models}
+          selectedModel={selectedModel}
+          pendingStart={pendingStartId !== null}
+          isQueued={runQueue.queued.some((run) => !run.sessionId)}
+          profile={startProfile}
+          onEditProfile={() => setProfileEditorCwd(startProfile?.cwd ?? cwd.trim())}
+          onOpenTemplates={() => setTemplateLibrary({ query: "" })}
           onCwdChange={setCwd}
           onPromptChange={setPrompt}
+          onPermissionModeChange={setPermissionMode}
+          onDisabledToolsChange={setDisabledTools}
+          onSelectAgent={setSelectedAgentId}
+          onSelectModel={setSelectedModel}
+          onCreateAgent={handleCreateAgent}
+          onCloneAgent={handleCloneAgent}
           onStart={handleStartFromModal}
           onClose={() => setShowStartModal(false)}
         />
       )}
 
+      {profileEditorCwd !== null && (
+        <WorkspaceProfileDialog
+          key={profileEditorCwd}
+          cwd={profileEditorCwd}
+          profile={workspaceProfiles.find((profile) => profile.cwd === profileEditorCwd)}
+          agents={agents}
+          onSave={handleSaveProfile}
+          onDelete={handleDeleteProfile}
+          onClose={() => setProfileEditorCwd(null)}
+        />
+      )}
+
+      {templateLibrary && (
+        <TemplateLibraryDialog
+          cwd={(showStartModal ? cwd.trim() : activeSession?.cwd) || undefined}
+          initialQuery={templateLibrary.query}
+          onApply={handleApplyTemplate}
+          onError={setGlobalError}
+          onClose={() => setTemplateLibrary(null)}
+        />
+      )}
+
+      {showUsageDashboard && (
+        <UsageDashboard
+          report={usageReport}
+          agents={agents}
+          models={models}
+          onSavePrices={handleSaveModelPrices}
+          onClose={() => setShowUsageDashboard(false)}
+        />
+      )}
+
       {globalError && (
         <div className="fixed bottom-24 left-1/2 z-50 -translate-x-1/2 rounded-xl border border-error/20 bg-error-light px-4 py-3 shadow-lg">
           <div className="flex items-center gap-3">
@@ -0,0 +1,67 @@
+import type { PromptAttachment } from "./types";
+
+// Images the agent can be sent as content; others go as files
+const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+// Model providers reject larger images
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Files without a path travel through IPC in full
+const MAX_INLINE_BYTES = 10 * 1024 * 1024;
+
+export function isImageAttachment(attachment: PromptAttachment): boolean {
+  return !!attachment.data && IMAGE_MEDIA_TYPES.includes(attachment.mediaType);
+}
+
+export function attachmentPreviewUrl(attachment: PromptAttachment): string {
+  return `data:${attachment.mediaType};base64,${attachment.data}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function readBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * An attachment for a dropped or pasted file. Images are read so they can be sent
+ * as content; other files are sent by path, or read when they have none.
+ */
+export async function readAttachment(file: File): Promise<PromptAttachment> {
+  const name = file.name || "Pasted file";
+  const path = window.electron.getPathForFile(file) || undefined;
+  const attachment: PromptAttachment = { id: crypto.randomUUID(), name, mediaType: file.type, size: file.size, path };
+
+  if (IMAGE_MEDIA_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) throw new Error(`${name} is over the ${formatFileSize(MAX_IMAGE_BYTES)} image limit`);
+    return { ...attachment, data: await readBase64(file) };
+  }
+  if (path) return attachment;
+  if (file.size > MAX_INLINE_BYTES) throw new Error(`${name} is over ${formatFileSize(MAX_INLINE_BYTES)}; attach it from disk instead`);
+  return { ...attachment, data: await readBase64(file) };
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = { png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif", webp: "image/webp" };
+
+/**
+ * An attachment for a file picked from the working directory. It goes by path;
+ * the main process reads images when the prompt is sent.
+ */
+export function workspaceAttachment(cwd: string, relativePath: string): PromptAttachment {
+  const separator = cwd.includes("\\") ? "\\" : "/";
+  const name = relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  const extension = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1).toLowerCase() : "";
+  return {
+    id: crypto.randomUUID(),
+    name,
+    mediaType: IMAGE_EXTENSIONS[extension] ?? "",
+    path: `${cwd.replace(/[\\/]+$/, "")}${separator}${relativePath.split("/").join(separator)}`,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Slash commands for the prompt input. A command runs a client-side action, sends
+ * a client event, or returns text that replaces the prompt (a template). Built-ins
+ * are registered below; anything else can add its own with registerCommand.
+ */
+
+import type { ClientEvent } from "./types";
+import { useAppStore } from "./store/useAppStore";
+import { EXPORT_FORMATS, exportSession } from "./render/export";
+
+export type CommandContext = {
+  // Text after the command name, trimmed
+  args: string;
+  sessionId: string | null;
+  sendEvent: (event: ClientEvent) => void;
+};
+
+export type SlashCommand = {
+  name: string;
+  description: string;
+  // Shown after the name while typing, e.g. "<format>"
+  argumentHint?: string;
+  // Values offered for the argument once the name is typed
+  argumentOptions?: () => string[];
+  // Hidden from the menu while no session is open
+  requiresSession?: boolean;
+  // A returned string becomes the new prompt text
+  run: (context: CommandContext) => void | string | Promise<void>;
+};
+
+const commands = new Map<string, SlashCommand>();
+const listeners = new Set<() => void>();
+let snapshot: SlashCommand[] = [];
+
+function notify(): void {
+  snapshot = [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Add a command, replacing any with the same name. Returns a function that removes it.
+ */
+export function registerCommand(command: SlashCommand): () => void {
+  commands.set(command.name, command);
+  notify();
+  return () => {
+    if (commands.get(command.name) !== command) return;
+    commands.delete(command.name);
+    notify();
+  };
+}
+
+export function getCommand(name: string): SlashCommand | undefined {
+  return commands.get(name);
+}
+
+// Stable between changes, for useSyncExternalStore
+export function listCommands(): SlashCommand[] {
+  return snapshot;
+}
+
+export function subscribeCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * A command that expands into a prompt; `$ARGUMENTS` in the template is replaced
+ * by whatever follows the command name.
+ */
+export function templateCommand(name: string, description: string, template: string, argumentHint?: string): SlashCommand {
+  return {
+    name,
+    description,
+    argumentHint,
+    // Without arguments the placeholder simply drops out
+    run: ({ args }) => template.replace(/\$ARGUMENTS/g, args).replace(/ {2,}/g, " ").trim(),
+  };
+}
+
+/**
+ * The command name and arguments of a prompt that starts with `/`, else null.
+ */
+export function parseCommandLine(text: string): { name: string; args: string; hasArgs: boolean } | null {
+  const match = /^\/([\w-]*)(\s+([\s\S]*))?$/.exec(text);
+  if (!match) return null;
+  return { name: match[1], args: (match[3] ?? "").trim(), hasArgs: match[2] !== undefined };
+}
+
+function requireSession(sessionId: string | null): string {
+  if (!sessionId) throw new Error("Open a session first.");
+  return sessionId;
+}
+
+const BUILTIN_COMMANDS: SlashCommand[] = [
+  {
+    name: "clear",
+    description: "Clear the messages shown; the history stays on the server",
+    requiresSession: true,
+    run: ({ sessionId }) => useAppStore.getState().clearSessionView(requireSession(sessionId)),
+  },
+  {
+    name: "model",
+    description: "Switch the model for the rest of this session",
+    argumentHint: "<model>",
+    argumentOptions: () => useAppStore.getState().models.map((model) => model.handle),
+    requiresSession: true,
+    run: ({ args, sessionId, sendEvent }) => {
+      if (!args) throw new Error("Name a model, e.g. /model openai/gpt-4.1.");
+      sendEvent({ type: "session.setModel", payload: { sessionId: requireSession(sessionId), model: args } });
+    },
+  },
+  {
+    name: "export",
+    description: "Save this session's transcript",
+    argumentHint: "[markdown|json|html]",
+    argumentOptions: () => EXPORT_FORMATS.map((format) => format.value),
+    requiresSession: true,
+    run: async ({ args, sessionId }) => {
+      const format = (args || "markdown") as ExportFormat;
+      if (!EXPORT_FORMATS.some((option) => option.value === format)) throw new Error(`Unknown export format "${args}".`);
+      const session = useAppStore.getState().sessions[requireSession(sessionId)];
+      if (session) await exportSession(session, format);
+    },
+  },
+  {
+    name: "memory",
+    description: "Show or hide the agent's memory blocks",
+    requiresSession: true,
+    run: () => {
+      const { showMemoryPanel, setShowMemoryPanel } = useAppStore.getState();
+      setShowMemoryPanel(!showMemoryPanel);
+    },
+  },
+  {
+    name: "stop",
+    description: "Stop the running task",
+    requiresSession: true,
+    run: ({ sessionId, sendEvent }) => sendEvent({ type: "session.stop", payload: { sessionId: requireSession(sessionId) } }),
+  },
+  {
+    name: "new",
+    description: "Start a new conversation in this session's directory",
+    argumentHint: "[prompt]",
+    run: ({ args, sessionId }) => {
+      const state = useAppStore.getState();
+      const cwd = sessionId ? state.sessions[sessionId]?.cwd : undefined;
+      if (cwd) state.setCwd(cwd);
+      // Cleared first so "/new …" is not kept as the draft of the session being left
+      state.setPrompt("");
+      state.setActiveSessionId(null);
+      state.setShowStartModal(true);
+      // The start modal reads the prompt from the store
+      return args;
+    },
+  },
+  {
+    name: "template",
+    description: "Fill in a saved prompt template",
+    argumentHint: "[search]",
+    // The filled-in template replaces the command in the prompt
+    run: ({ args }) => useAppStore.getState().setTemplateLibrary({ query: args }),
+  },
+  templateCommand(
+    "review",
+    "Ask for a code review of a file or the current changes",
+    "Review $ARGUMENTS for bugs, unclear code, and missing edge cases. List concrete problems with file and line references before suggesting fixes.",
+    "[path]",
+  ),
+];
+
+for (const command of BUILTIN_COMMANDS) registerCommand(command);
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import type { AgentSummary } from "../types";
+
+interface AgentPickerProps {
+  agents: AgentSummary[];
+  agentsLoaded: boolean;
+  selectedAgentId: string | null;
+  onSelect: (agentId: string | null) => void;
+  onCreate: (name: string, persona: string) => void;
+  onClone: (agentId: string, name: string) => void;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+function formatLastUsed(timestamp?: number): string {
+  if (!timestamp) return "Never used";
+  const elapsed = Date.now() - timestamp;
+  if (elapsed < MINUTE) return "Just now";
+  if (elapsed < HOUR) return `${Math.floor(elapsed / MINUTE)}m ago`;
+  if (elapsed < DAY) return `${Math.floor(elapsed / HOUR)}h ago`;
+  if (elapsed < 30 * DAY) return `${Math.floor(elapsed / DAY)}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+const inputClassName = "rounded-lg border border-ink-900/10 bg-surface px-3 py-2 text-xs text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors";
+
+export function AgentPicker({ agents, agentsLoaded, selectedAgentId, onSelect, onCreate, onClone }: AgentPickerProps) {
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newPersona, setNewPersona] = useState("");
+  // Agent being cloned and the name for the copy
+  const [cloneSource, setCloneSource] = useState<string | null>(null);
+  const [cloneName, setCloneName] = useState("");
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim(), newPersona.trim());
+    setShowCreate(false);
+    setNewName("");
+    setNewPersona("");
+  };
+
+  const handleClone = () => {
+    if (!cloneSource || !cloneName.trim()) return;
+    onClone(cloneSource, cloneName.trim());
+    setCloneSource(null);
+    setCloneName("");
+  };
+
+  const startClone = (agent: AgentSummary) => {
+    setShowCreate(false);
+    setCloneSource(agent.id);
+    setCloneName(`${agent.name} copy`);
+  };
+
+  const optionClassName = (selected: boolean) =>
+    `flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left transition-colors ${selected ? "bg-accent/10" : "hover:bg-surface-tertiary"}`;
+
+  return (
+    <div className="grid gap-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted">Agent</span>
+        <button
+          type="button"
+          className={`rounded-full border px-2.5 py-0.5 text-[11px] transition-colors ${showCreate ? "border-accent/60 bg-accent/10 text-ink-800" : "border-ink-900/10 text-muted hover:text-ink-700"}`}
+          onClick={() => { setShowCreate(!showCreate); setCloneSource(null); }}
+        >
+          New agent
+        </button>
+      </div>
+
+      {showCreate && (
+        <div className="grid gap-2 rounded-xl border border-ink-900/10 bg-surface-secondary p-3">
+          <input
+            className={inputClassName}
+            placeholder="Agent name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <textarea
+            rows={3}
+            className={`${inputClassName} resize-none`}
+            placeholder="Persona (optional): who the agent is and how it should behave"
+            value={newPersona}
+            onChange={(e) => setNewPersona(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" className="rounded-full px-3 py-1 text-xs text-muted hover:text-ink-700" onClick={() => setShowCreate(false)}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="rounded-full bg-accent px-3 py-1 text-xs font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+            >
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-52 overflow-y-auto rounded-xl border border-ink-900/10 bg-surface-secondary p-1">
+        <button type="button" className={optionClassName(selectedAgentId === null)} onClick={() => onSelect(null)}>
+          <div className="min-w-0 flex-1">
+            <div className="text-xs font-medium text-ink-800">Default agent</div>
+            <div className="text-[11px] text-muted">The agent Letta Code would pick</div>
+          </div>
+        </button>
+        {!agentsLoaded && <div className="px-3 py-2 text-[11px] text-muted">Loading agents...</div>}
+        {agents.map((agent) => (
+          <div key={agent.id}>
+            <div className="group flex items-center">
+              <button type="button" className={optionClassName(selectedAgentId === agent.id)} onClick={() => onSelect(agent.id)} title={agent.id}>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-xs font-medium text-ink-800">{agent.name}</div>
+                  <div className="truncate text-[11px] text-muted">{agent.model ?? "Unknown model"}</div>
+                </div>
+                <span className="shrink-0 text-[11px] text-muted-light">{formatLastUsed(agent.lastUsedAt)}</span>
+              </button>
+              <button
+                type="button"
+                className="ml-1 shrink-0 rounded-md p-1.5 text-muted opacity-0 transition-opacity hover:bg-surface-tertiary hover:text-ink-700 group-hover:opacity-100"
+                onClick={() => startClone(agent)}
+                aria-label={`Clone ${agent.name}`}
+                title="Clone agent"
+              >
+                <svg viewBox="0 0 24 24" className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth="2">
+                  <rect x="9" y="9" width="11" height="11" rx="2" />
+                  <path d="M5 15V6a2 2 0 0 1 2-2h9" />
+                </svg>
+              </button>
+            </div>
+            {cloneSource === agent.id && (
+              <div className="flex gap-2 px-3 py-2">
+                <input
+                  className={`${inputClassName} flex-1`}
+                  placeholder="Name for the copy"
+                  value={cloneName}
+                  onChange={(e) => setCloneName(e.target.value)}
+                  autoFocus
+                />
+                <button type="button" className="rounded-full px-3 py-1 text-xs text-muted hover:text-ink-700" onClick={() => setCloneSource(null)}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full bg-accent px-3 py-1 text-xs font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={handleClone}
+                  disabled={!cloneName.trim()}
+                >
+                  Clone
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { PromptAttachment } from "../types";
+import { attachmentPreviewUrl, formatFileSize, isImageAttachment } from "../attachments";
+
+interface AttachmentChipsProps {
+  attachments: PromptAttachment[];
+  // Chips are read-only without it
+  onRemove?: (id: string) => void;
+}
+
+export function AttachmentChips({ attachments, onRemove }: AttachmentChipsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className="flex max-w-[240px] items-center gap-2 rounded-xl border border-ink-900/10 bg-surface-secondary py-1 pl-1 pr-2 text-xs text-ink-700"
+          title={attachment.path ?? attachment.name}
+        >
+          {isImageAttachment(attachment) ? (
+            <img src={attachmentPreviewUrl(attachment)} alt={attachment.name} className="h-9 w-9 shrink-0 rounded-lg object-cover" />
+          ) : (
+            <span className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-ink-900/5 text-muted">
+              <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.8">
+                <path d="M14 3H7a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V8z" />
+                <path d="M14 3v5h5" />
+              </svg>
+            </span>
+          )}
+          <span className="grid min-w-0">
+            <span className="truncate font-medium">{attachment.name}</span>
+            {attachment.size !== undefined && <span className="text-[10px] text-muted">{formatFileSize(attachment.size)}</span>}
+          </span>
+          {onRemove && (
+            <button
+              className="ml-auto rounded-full p-0.5 text-muted hover:bg-ink-900/10 hover:text-ink-700"
+              onClick={() => onRemove(attachment.id)}
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
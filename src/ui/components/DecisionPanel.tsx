@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import type { CanUseToolResponse } from "../types";
+import type { ApprovalScope, CanUseToolResponse } from "../types";
 import type { PermissionRequest } from "../store/useAppStore";
 
 type AskUserQuestionInput = {
@@ -17,7 +17,7 @@ export function DecisionPanel({
   onSubmit
 }: {
   request: PermissionRequest;
-  onSubmit: (result: CanUseToolResponse) => void;
+  onSubmit: (result: CanUseToolResponse, scope?: ApprovalScope) => void;
 }) {
   const input = request.input as AskUserQuestionInput | null;
   const questions = input?.questions ?? [];
@@ -163,9 +163,21 @@ export function DecisionPanel({
       <div className="mt-4 flex flex-wrap gap-3">
         <button
           className="rounded-full bg-accent px-5 py-2 text-sm font-medium text-white shadow-soft hover:bg-accent-hover transition-colors"
-          onClick={() => onSubmit({ behavior: "allow" })}
+          onClick={() => onSubmit({ behavior: "allow" }, "once")}
         >
-          Allow
+          Allow once
+        </button>
+        <button
+          className="rounded-full border border-accent/30 bg-surface px-5 py-2 text-sm font-medium text-accent hover:bg-surface-tertiary transition-colors"
+          onClick={() => onSubmit({ behavior: "allow" }, "session")}
+        >
+          Allow for this session
+        </button>
+        <button
+          className="rounded-full border border-accent/30 bg-surface px-5 py-2 text-sm font-medium text-accent hover:bg-surface-tertiary transition-colors"
+          onClick={() => onSubmit({ behavior: "allow" }, "directory")}
+        >
+          Always allow in this directory
         </button>
         <button
           className="rounded-full border border-ink-900/10 bg-surface px-5 py-2 text-sm font-medium text-ink-700 hover:bg-surface-tertiary transition-colors"
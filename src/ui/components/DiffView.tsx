@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react";
+import hljs from "highlight.js/lib/common";
+import { diffLines, foldUnchanged, type DiffLine } from "../render/diff";
+
+type DiffMode = "inline" | "split";
+
+interface DiffViewProps {
+  oldText: string;
+  newText: string;
+  filePath?: string;
+  // Off for snippets, whose numbers would not match the file
+  lineNumbers?: boolean;
+}
+
+function languageFor(filePath?: string): string | undefined {
+  const extension = filePath?.split(".").pop()?.toLowerCase();
+  return extension && hljs.getLanguage(extension) ? extension : undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Highlighted line by line, so constructs spanning lines may lose their colour
+function highlight(text: string, language?: string): string {
+  if (!language) return escapeHtml(text);
+  return hljs.highlight(text, { language, ignoreIllegals: true }).value;
+}
+
+const ROW_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-success-light",
+  remove: "bg-error-light",
+};
+
+const MARKERS: Record<DiffLine["type"], string> = {
+  context: " ",
+  add: "+",
+  remove: "-",
+};
+
+function Code({ line, language }: { line?: DiffLine; language?: string }) {
+  if (!line) return <span className="flex-1" />;
+  return (
+    <code
+      className="flex-1 whitespace-pre-wrap break-all"
+      dangerouslySetInnerHTML={{ __html: highlight(line.text, language) || " " }}
+    />
+  );
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return <span className="w-8 shrink-0 select-none pr-2 text-right text-muted-light">{value ?? ""}</span>;
+}
+
+function InlineRow({ line, language, lineNumbers }: { line: DiffLine; language?: string; lineNumbers: boolean }) {
+  return (
+    <div className={`flex ${ROW_STYLES[line.type]}`}>
+      {lineNumbers && <LineNumber value={line.oldNumber} />}
+      {lineNumbers && <LineNumber value={line.newNumber} />}
+      <span className={`w-4 shrink-0 select-none ${line.type === "add" ? "text-success" : "text-error"}`}>{MARKERS[line.type]}</span>
+      <Code line={line} language={language} />
+    </div>
+  );
+}
+
+// Pair removals with the additions that follow them so both sides line up
+function toSplitRows(lines: DiffLine[]): Array<[DiffLine | undefined, DiffLine | undefined]> {
+  const rows: Array<[DiffLine | undefined, DiffLine | undefined]> = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      rows.push([lines[index], lines[index]]);
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "remove") removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === "add") added.push(lines[index++]);
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) rows.push([removed[i], added[i]]);
+  }
+  return rows;
+}
+
+function SplitRows({ lines, language, lineNumbers }: { lines: DiffLine[]; language?: string; lineNumbers: boolean }) {
+  return (
+    <>
+      {toSplitRows(lines).map(([left, right], index) => (
+        <div key={index} className="grid grid-cols-2">
+          <div className={`flex border-r border-ink-900/10 ${left ? ROW_STYLES[left.type] : "bg-surface-tertiary"}`}>
+            {lineNumbers && <LineNumber value={left?.oldNumber} />}
+            <Code line={left} language={language} />
+          </div>
+          <div className={`flex ${right ? ROW_STYLES[right.type] : "bg-surface-tertiary"}`}>
+            {lineNumbers && <LineNumber value={right?.newNumber} />}
+            <Code line={right} language={language} />
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Unified or side-by-side diff of two texts, with unchanged regions folded.
+ */
+export function DiffView({ oldText, newText, filePath, lineNumbers = true }: DiffViewProps) {
+  const [mode, setMode] = useState<DiffMode>("inline");
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const blocks = useMemo(() => foldUnchanged(diffLines(oldText, newText)), [oldText, newText]);
+  const language = languageFor(filePath);
+
+  const added = blocks.reduce((sum, block) => sum + block.lines.filter((line) => line.type === "add").length, 0);
+  const removed = blocks.reduce((sum, block) => sum + block.lines.filter((line) => line.type === "remove").length, 0);
+
+  const renderLines = (lines: DiffLine[]) => mode === "split"
+    ? <SplitRows lines={lines} language={language} lineNumbers={lineNumbers} />
+    : lines.map((line, index) => <InlineRow key={index} line={line} language={language} lineNumbers={lineNumbers} />);
+
+  return (
+    <div className="rounded-lg border border-ink-900/10 bg-surface text-xs">
+      <div className="flex items-center gap-2 border-b border-ink-900/10 px-2 py-1">
+        <span className="text-success">+{added}</span>
+        <span className="text-error">-{removed}</span>
+        <div className="ml-auto flex items-center rounded-full border border-ink-900/10 p-0.5">
+          {(["inline", "split"] as const).map((value) => (
+            <button
+              key={value}
+              className={`rounded-full px-2 py-0.5 capitalize transition-colors ${mode === value ? "bg-accent/10 text-ink-800" : "text-muted hover:text-ink-700"}`}
+              onClick={() => setMode(value)}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="max-h-96 overflow-auto py-1 font-mono leading-5 text-ink-700">
+        {blocks.map((block, index) => {
+          if (block.type === "lines" || expanded.has(index)) {
+            return <div key={index}>{renderLines(block.lines)}</div>;
+          }
+          return (
+            <button
+              key={index}
+              className="block w-full bg-surface-tertiary px-2 py-0.5 text-left text-muted hover:text-accent transition-colors"
+              onClick={() => setExpanded((current) => new Set(current).add(index))}
+            >
+              ⋯ {block.lines.length} unchanged lines
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
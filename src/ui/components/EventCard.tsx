@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import type {
+  ApprovalScope,
   CanUseToolResponse,
+  ModelChangeMessage,
   SDKMessage,
   SDKToolCallMessage,
   SDKToolResultMessage,
@@ -8,10 +10,15 @@ import type {
   SDKInitMessage,
   SDKAssistantMessage,
   StreamMessage,
+  UserPromptMessage,
 } from "../types";
-import type { PermissionRequest } from "../store/useAppStore";
+import { useAppStore, type PermissionRequest } from "../store/useAppStore";
 import MDContent from "../render/markdown";
 import { DecisionPanel } from "./DecisionPanel";
+import { DiffView } from "./DiffView";
+import { AttachmentChips } from "./AttachmentChips";
+import { TerminalOutput } from "./TerminalOutput";
+import { extractTagContent, getFileEdit, getToolSummary, parseBashResult } from "../tools";
 
 type ToolStatus = "pending" | "success" | "error";
 const toolStatusMap = new Map<string, ToolStatus>();
@@ -75,14 +82,13 @@ export function isMarkdown(text: string): boolean {
   return patterns.some((pattern) => pattern.test(text));
 }
 
-function extractTagContent(input: string, tag: string): string | null {
-  const match = input.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
-  return match ? match[1] : null;
-}
-
 // Tool Result Card (for tool_result messages)
-const ToolResultCard = ({ message }: { message: SDKToolResultMessage }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+const ToolResultCard = ({ message, toolCall, defaultExpanded = false }: {
+  message: SDKToolResultMessage;
+  toolCall?: SDKToolCallMessage;
+  defaultExpanded?: boolean;
+}) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const isFirstRender = useRef(true);
   
@@ -105,6 +111,17 @@ const ToolResultCard = ({ message }: { message: SDKToolResultMessage }) => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
   }, [hasMoreLines, isExpanded]);
 
+  if (toolCall?.toolName === "Bash") {
+    const { exitCode, output } = parseBashResult(lines.join("\n"), isError);
+    const command = getToolSummary("Bash", toolCall.toolInput) ?? undefined;
+    return (
+      <div className="flex flex-col mt-4">
+        <div className="header text-accent">Output</div>
+        <TerminalOutput output={output} command={command} exitCode={exitCode} defaultExpanded={defaultExpanded} />
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col mt-4">
       <div className="header text-accent">Output</div>
@@ -112,7 +129,7 @@ const ToolResultCard = ({ message }: { message: SDKToolResultMessage }) => {
         <pre className={`text-sm whitespace-pre-wrap break-words font-mono ${isError ? "text-red-500" : "text-ink-700"}`}>
           {isMarkdownContent ? <MDContent text={visibleContent} /> : visibleContent}
         </pre>
-        {hasMoreLines && (
+        {hasMoreLines && !defaultExpanded && (
           <button onClick={() => setIsExpanded(!isExpanded)} className="mt-2 text-sm text-accent hover:text-accent-hover transition-colors flex items-center gap-1">
             <span>{isExpanded ? "▲" : "▼"}</span>
             <span>{isExpanded ? "Collapse" : `Show ${lines.length - MAX_VISIBLE_LINES} more lines`}</span>
@@ -156,12 +173,14 @@ const ToolCallCard = ({
   message: SDKToolCallMessage; 
   showIndicator?: boolean;
   permissionRequest?: PermissionRequest;
-  onPermissionResult?: (toolUseId: string, result: CanUseToolResponse) => void;
+  onPermissionResult?: (toolUseId: string, result: CanUseToolResponse, scope?: ApprovalScope) => void;
 }) => {
   const toolStatus = useToolStatus(message.toolCallId);
   const statusVariant = toolStatus === "error" ? "error" : "success";
   const isPending = !toolStatus || toolStatus === "pending";
   const shouldShowDot = toolStatus === "success" || toolStatus === "error" || showIndicator;
+  const snapshot = useAppStore((state) => (message.toolCallId ? state.fileSnapshots[message.toolCallId] : undefined));
+  const fileEdit = getFileEdit(message.toolName, message.toolInput);
 
   useEffect(() => {
     if (message.toolCallId && !toolStatusMap.has(message.toolCallId)) {
@@ -169,18 +188,6 @@ const ToolCallCard = ({
     }
   }, [message.toolCallId]);
 
-  const getToolInfo = (): string | null => {
-    const input = message.toolInput;
-    switch (message.toolName) {
-      case "Bash": return (input as any)?.command || null;
-      case "Read": case "Write": case "Edit": return (input as any)?.file_path || null;
-      case "Glob": case "Grep": return (input as any)?.pattern || null;
-      case "Task": return (input as any)?.description || null;
-      case "WebFetch": return (input as any)?.url || null;
-      default: return null;
-    }
-  };
-
   // Handle AskUserQuestion specially
   if (message.toolName === "AskUserQuestion") {
     const input = message.toolInput as AskUserQuestionInput | null;
@@ -219,9 +226,20 @@ const ToolCallCard = ({
         <StatusDot variant={statusVariant} isActive={isPending && showIndicator} isVisible={shouldShowDot} />
         <div className="flex flex-row items-center gap-2 tool-use-item min-w-0 flex-1">
           <span className="inline-flex items-center rounded-md text-accent py-0.5 text-sm font-medium shrink-0">{message.toolName}</span>
-          <span className="text-sm text-muted truncate">{getToolInfo()}</span>
+          <span className="text-sm text-muted truncate">{getToolSummary(message.toolName, message.toolInput)}</span>
         </div>
       </div>
+      {fileEdit && fileEdit.oldText !== undefined && (
+        <DiffView oldText={fileEdit.oldText} newText={fileEdit.newText} filePath={fileEdit.filePath} lineNumbers={false} />
+      )}
+      {fileEdit && fileEdit.oldText === undefined && (
+        <>
+          {typeof snapshot !== "string" && (
+            <span className="text-xs text-muted">{snapshot === null ? "New file" : "Previous content unavailable, showing the written file"}</span>
+          )}
+          <DiffView oldText={snapshot ?? ""} newText={fileEdit.newText} filePath={fileEdit.filePath} />
+        </>
+      )}
     </div>
   );
 };
@@ -249,14 +267,28 @@ const InitCard = ({ message, showIndicator = false }: { message: SDKInitMessage;
   );
 };
 
+// Divider where the session switched models; later turns come from the new one
+const ModelChangeCard = ({ message }: { message: ModelChangeMessage }) => (
+  <div className="mt-4 flex items-center gap-3 text-xs text-muted">
+    <div className="h-px flex-1 bg-ink-900/10" />
+    <span>Switched model to <span className="font-medium text-ink-700">{message.model}</span></span>
+    <div className="h-px flex-1 bg-ink-900/10" />
+  </div>
+);
+
 // User Prompt Card
-const UserPromptCard = ({ message, showIndicator = false }: { message: { type: "user_prompt"; prompt: string }; showIndicator?: boolean }) => (
+const UserPromptCard = ({ message, showIndicator = false }: { message: UserPromptMessage; showIndicator?: boolean }) => (
   <div className="flex flex-col mt-4">
     <div className="header text-accent flex items-center gap-2">
       <StatusDot variant="success" isActive={showIndicator} isVisible={showIndicator} />
       User
     </div>
-    <MDContent text={message.prompt} />
+    {message.prompt && <MDContent text={message.prompt} />}
+    {message.attachments && message.attachments.length > 0 && (
+      <div className="mt-2">
+        <AttachmentChips attachments={message.attachments} />
+      </div>
+    )}
   </div>
 );
 
@@ -265,13 +297,19 @@ export function MessageCard({
   isLast = false,
   isRunning = false,
   permissionRequest,
-  onPermissionResult
+  onPermissionResult,
+  toolCall,
+  expandOutput = false
 }: {
   message: StreamMessage;
   isLast?: boolean;
   isRunning?: boolean;
   permissionRequest?: PermissionRequest;
-  onPermissionResult?: (toolUseId: string, result: CanUseToolResponse) => void;
+  onPermissionResult?: (toolUseId: string, result: CanUseToolResponse, scope?: ApprovalScope) => void;
+  // The call a tool_result answers, when it is loaded
+  toolCall?: SDKToolCallMessage;
+  // Show tool output in full, e.g. for static exports
+  expandOutput?: boolean;
 }) {
   const showIndicator = isLast && isRunning;
 
@@ -280,6 +318,10 @@ export function MessageCard({
     return <UserPromptCard message={message} showIndicator={showIndicator} />;
   }
 
+  if (message.type === "model_change") {
+    return <ModelChangeCard message={message} />;
+  }
+
   // SDK message types
   const sdkMessage = message as SDKMessage;
 
@@ -297,7 +339,7 @@ export function MessageCard({
       return <ToolCallCard message={sdkMessage} showIndicator={showIndicator} permissionRequest={permissionRequest} onPermissionResult={onPermissionResult} />;
     
     case "tool_result":
-      return <ToolResultCard message={sdkMessage} />;
+      return <ToolResultCard message={sdkMessage} toolCall={toolCall} defaultExpanded={expandOutput} />;
     
     case "result":
       // Don't render session result
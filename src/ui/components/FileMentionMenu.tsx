@@ -0,0 +1,63 @@
+import { fuzzyMatch } from "../fuzzy";
+
+interface FileMentionMenuProps {
+  query: string;
+  suggestions: string[];
+  selectedIndex: number;
+  // False until the working directory has been listed
+  hasFiles: boolean;
+  onSelect: (path: string, attach: boolean) => void;
+}
+
+function HighlightedPath({ path, query }: { path: string; query: string }) {
+  const positions = new Set(fuzzyMatch(query, path)?.positions);
+  if (positions.size === 0) return <>{path}</>;
+  return (
+    <>
+      {Array.from(path).map((char, index) => (
+        positions.has(index) ? <span key={index} className="font-semibold text-ink-800">{char}</span> : char
+      ))}
+    </>
+  );
+}
+
+export function FileMentionMenu({ query, suggestions, selectedIndex, hasFiles, onSelect }: FileMentionMenuProps) {
+  if (!hasFiles) return null;
+
+  return (
+    // Clicks must not blur the textarea, or the mention closes before the pick lands
+    <div
+      className="absolute bottom-full left-0 right-0 mb-2 overflow-hidden rounded-xl border border-ink-900/10 bg-surface shadow-elevated"
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {suggestions.length === 0 ? (
+        <div className="px-3 py-2 text-xs text-muted">No files match "{query}"</div>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto py-1" role="listbox">
+          {suggestions.map((path, index) => (
+            <li
+              key={path}
+              role="option"
+              aria-selected={index === selectedIndex}
+              className={`flex items-center gap-2 px-3 py-1.5 text-xs ${index === selectedIndex ? "bg-accent/10" : "hover:bg-surface-secondary"}`}
+            >
+              <button type="button" className="min-w-0 flex-1 truncate text-left text-ink-700" onClick={() => onSelect(path, false)} title={path}>
+                <HighlightedPath path={path} query={query} />
+              </button>
+              <button
+                type="button"
+                className="shrink-0 rounded-md px-1.5 py-0.5 text-[11px] text-muted hover:bg-ink-900/10 hover:text-ink-700"
+                onClick={() => onSelect(path, true)}
+              >
+                Attach
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="border-t border-ink-900/5 px-3 py-1.5 text-[10px] text-muted-light">
+        Enter inserts the path · Alt+Enter also attaches the file · Esc closes
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import type { MemoryBlock } from "../types";
+import type { SessionMemory } from "../store/useAppStore";
+
+interface MemoryPanelProps {
+  memory?: SessionMemory;
+  agentName?: string;
+  onRefresh: () => void;
+  onSave: (label: string, value: string) => void;
+  onClose: () => void;
+}
+
+function MemoryBlockEditor({ block, changed, onSave }: { block: MemoryBlock; changed: boolean; onSave: (value: string) => void }) {
+  const [draft, setDraft] = useState(block.value);
+  const [serverValue, setServerValue] = useState(block.value);
+
+  // Take the server value whenever it changes underneath us
+  if (serverValue !== block.value) {
+    setServerValue(block.value);
+    setDraft(block.value);
+  }
+
+  const isDirty = draft !== block.value;
+  const usage = block.limit ? draft.length / block.limit : 0;
+  const isOverLimit = block.limit !== undefined && draft.length > block.limit;
+
+  return (
+    <div className={`rounded-xl border p-3 ${changed ? "border-accent/60 bg-accent/5" : "border-ink-900/10 bg-surface"}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate text-xs font-semibold text-ink-800">{block.label}</div>
+          {block.description && <div className="truncate text-[11px] text-muted" title={block.description}>{block.description}</div>}
+        </div>
+        <div className="flex shrink-0 items-center gap-1.5">
+          {changed && <span className="rounded-full bg-accent/15 px-2 py-0.5 text-[10px] font-medium text-accent">Changed</span>}
+          {block.readOnly && <span className="rounded-full bg-surface-tertiary px-2 py-0.5 text-[10px] text-muted">Read-only</span>}
+        </div>
+      </div>
+      <textarea
+        rows={5}
+        className="mt-2 w-full resize-y rounded-lg border border-ink-900/10 bg-surface-secondary p-2 font-mono text-[11px] leading-relaxed text-ink-800 focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors disabled:opacity-70"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={block.readOnly}
+      />
+      {block.limit !== undefined && (
+        <div className="mt-1.5 flex items-center gap-2">
+          <div className="h-1 flex-1 overflow-hidden rounded-full bg-ink-900/10">
+            <div
+              className={`h-full rounded-full ${isOverLimit ? "bg-error" : usage > 0.9 ? "bg-warning" : "bg-accent"}`}
+              style={{ width: `${Math.min(usage, 1) * 100}%` }}
+            />
+          </div>
+          <span className={`text-[10px] tabular-nums ${isOverLimit ? "text-error" : "text-muted"}`}>
+            {draft.length.toLocaleString()} / {block.limit.toLocaleString()}
+          </span>
+        </div>
+      )}
+      {isDirty && (
+        <div className="mt-2 flex justify-end gap-2">
+          <button type="button" className="rounded-full px-3 py-1 text-xs text-muted hover:text-ink-700" onClick={() => setDraft(block.value)}>
+            Revert
+          </button>
+          <button
+            type="button"
+            className="rounded-full bg-accent px-3 py-1 text-xs font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => onSave(draft)}
+            disabled={isOverLimit}
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MemoryPanel({ memory, agentName, onRefresh, onSave, onClose }: MemoryPanelProps) {
+  return (
+    <aside className="flex w-[340px] shrink-0 flex-col border-l border-ink-900/10 bg-surface">
+      <div className="flex h-12 items-center justify-between border-b border-ink-900/10 px-4">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-ink-800">Memory</div>
+          {agentName && <div className="truncate text-[11px] text-muted">{agentName}</div>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button className="rounded-full p-1.5 text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors" onClick={onRefresh} aria-label="Refresh memory" title="Refresh">
+            <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 12a9 9 0 1 1-3-6.7L21 8M21 3v5h-5" />
+            </svg>
+          </button>
+          <button className="rounded-full p-1.5 text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors" onClick={onClose} aria-label="Close memory panel">
+            <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        {!memory ? (
+          <div className="py-8 text-center text-xs text-muted">Loading memory...</div>
+        ) : memory.blocks.length === 0 ? (
+          <div className="py-8 text-center text-xs text-muted">This agent has no core memory blocks.</div>
+        ) : (
+          <div className="grid gap-3">
+            {memory.blocks.map((block) => (
+              <MemoryBlockEditor
+                key={block.id}
+                block={block}
+                changed={memory.changedLabels.includes(block.label)}
+                onSave={(value) => onSave(block.label, value)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ModelSummary } from "../types";
+
+interface ModelSelectProps {
+  models: ModelSummary[];
+  // Selected handle; null keeps the agent's own model
+  value: string | null;
+  // Label for the null choice, e.g. the agent's current model
+  defaultLabel: string;
+  onChange: (model: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Model picker grouped by provider. A selected handle the server no longer
+ * lists stays selectable so it is not silently dropped.
+ */
+export function ModelSelect({ models, value, defaultLabel, onChange, disabled, className }: ModelSelectProps) {
+  const providers = new Map<string, ModelSummary[]>();
+  for (const model of models) {
+    const provider = model.provider ?? "Other";
+    providers.set(provider, [...(providers.get(provider) ?? []), model]);
+  }
+
+  return (
+    <select
+      className={className}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      aria-label="Model"
+    >
+      <option value="">{defaultLabel}</option>
+      {value && !models.some((model) => model.handle === value) && <option value={value}>{value}</option>}
+      {Array.from(providers, ([provider, providerModels]) => (
+        <optgroup key={provider} label={provider}>
+          {providerModels.map((model) => (
+            <option key={model.handle} value={model.handle} title={model.handle}>
+              {model.name}
+              {model.contextWindow ? ` · ${Math.round(model.contextWindow / 1000)}k` : ""}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
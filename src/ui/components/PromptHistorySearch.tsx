@@ -0,0 +1,85 @@
+import { useMemo, useState } from "react";
+
+const MAX_MATCHES = 8;
+
+interface PromptHistorySearchProps {
+  history: string[];
+  onPick: (prompt: string) => void;
+  onClose: () => void;
+}
+
+function firstLine(text: string): string {
+  const line = text.trim().split("\n")[0];
+  return line.length < text.trim().length ? `${line} …` : line;
+}
+
+/**
+ * Reverse search over sent prompts, opened with Ctrl+R. Pressing Ctrl+R again
+ * moves to the next older match, as in a shell.
+ */
+export function PromptHistorySearch({ history, onPick, onClose }: PromptHistorySearchProps) {
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (needle ? history.filter((prompt) => prompt.toLowerCase().includes(needle)) : history).slice(0, MAX_MATCHES);
+  }, [history, query]);
+  const selected = Math.min(selectedIndex, Math.max(matches.length - 1, 0));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const older = e.key === "ArrowDown" || (e.key === "r" && e.ctrlKey);
+    if (older || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (matches.length > 0) setSelectedIndex((selected + (older ? 1 : -1) + matches.length) % matches.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (matches[selected] !== undefined) onPick(matches[selected]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 overflow-hidden rounded-xl border border-ink-900/10 bg-surface shadow-elevated">
+      <div className="flex items-center gap-2 border-b border-ink-900/5 px-3 py-2">
+        <span className="shrink-0 text-[11px] font-medium text-muted">History</span>
+        <input
+          className="min-w-0 flex-1 bg-transparent text-xs text-ink-800 placeholder:text-muted-light focus:outline-none"
+          placeholder="Search sent prompts..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={onClose}
+          autoFocus
+        />
+      </div>
+      {matches.length === 0 ? (
+        <div className="px-3 py-2 text-xs text-muted">{history.length === 0 ? "No prompts sent yet" : "No prompts match"}</div>
+      ) : (
+        // Clicks must not blur the search field before the pick lands
+        <ul className="max-h-64 overflow-y-auto py-1" role="listbox" onMouseDown={(e) => e.preventDefault()}>
+          {matches.map((prompt, index) => (
+            <li key={prompt} role="option" aria-selected={index === selected}>
+              <button
+                type="button"
+                className={`w-full truncate px-3 py-1.5 text-left text-xs text-ink-700 ${index === selected ? "bg-accent/10" : "hover:bg-surface-secondary"}`}
+                onClick={() => onPick(prompt)}
+                title={prompt}
+              >
+                {firstLine(prompt)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="border-t border-ink-900/5 px-3 py-1.5 text-[10px] text-muted-light">
+        Enter recalls · Ctrl+R or ↓ for older · Esc closes
+      </div>
+    </div>
+  );
+}
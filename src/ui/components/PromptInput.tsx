@@ -1,8 +1,18 @@
 import { useCallback, useEffect, useRef } from "react";
 import type { ClientEvent } from "../types";
 import { useAppStore } from "../store/useAppStore";
+import { toToolLists } from "../tools";
+import { PromptQueue } from "./PromptQueue";
+import { SessionUsageFooter } from "./SessionUsageFooter";
+import { AttachmentChips } from "./AttachmentChips";
+import { FileMentionMenu } from "./FileMentionMenu";
+import { SlashCommandMenu } from "./SlashCommandMenu";
+import { PromptHistorySearch } from "./PromptHistorySearch";
+import { useAttachments } from "../hooks/useAttachments";
+import { useFileMention } from "../hooks/useFileMention";
+import { useSlashCommands } from "../hooks/useSlashCommands";
+import { usePromptHistory } from "../hooks/usePromptHistory";
 
-const DEFAULT_ALLOWED_TOOLS = "Read,Edit,Bash";
 const MAX_ROWS = 12;
 const LINE_HEIGHT = 21;
 const MAX_HEIGHT = MAX_ROWS * LINE_HEIGHT;
@@ -15,36 +25,50 @@ interface PromptInputProps {
 
 export function usePromptActions(sendEvent: (event: ClientEvent) => void) {
   const prompt = useAppStore((state) => state.prompt);
+  const attachments = useAppStore((state) => state.attachments);
   const cwd = useAppStore((state) => state.cwd);
+  const permissionMode = useAppStore((state) => state.permissionMode);
+  const disabledTools = useAppStore((state) => state.disabledTools);
+  const selectedAgentId = useAppStore((state) => state.selectedAgentId);
+  const selectedModel = useAppStore((state) => state.selectedModel);
   const activeSessionId = useAppStore((state) => state.activeSessionId);
   const sessions = useAppStore((state) => state.sessions);
   const setPrompt = useAppStore((state) => state.setPrompt);
-  const setPendingStart = useAppStore((state) => state.setPendingStart);
+  const setAttachments = useAppStore((state) => state.setAttachments);
+  const setPendingStartId = useAppStore((state) => state.setPendingStartId);
   const setGlobalError = useAppStore((state) => state.setGlobalError);
 
   const activeSession = activeSessionId ? sessions[activeSessionId] : undefined;
-  const isRunning = activeSession?.status === "running";
+  // A queued run can be cancelled with the same stop button
+  const isRunning = activeSession?.status === "running" || activeSession?.status === "queued";
 
   const handleSend = useCallback(async () => {
-    if (!prompt.trim()) return;
+    if (!prompt.trim() && attachments.length === 0) return;
+    const promptAttachments = attachments.length > 0 ? attachments : undefined;
 
     if (!activeSessionId) {
-      setPendingStart(true);
+      // Echoed back in the new session's first status, so other runs' updates are not mistaken for it
+      const clientRequestId = crypto.randomUUID();
+      setPendingStartId(clientRequestId);
       // Title will be set from conversation ID
       sendEvent({
         type: "session.start",
-        payload: { title: "", prompt, cwd: cwd.trim() || undefined, allowedTools: DEFAULT_ALLOWED_TOOLS }
+        payload: { clientRequestId, title: "", prompt, attachments: promptAttachments, cwd: cwd.trim() || undefined, permissionMode, agentId: selectedAgentId ?? undefined, model: selectedModel ?? undefined, ...toToolLists(disabledTools) }
       });
       // Don't clear prompt yet - wait for modal to close to avoid UI flicker
     } else {
-      if (activeSession?.status === "running") {
-        setGlobalError("Session is still running. Please wait for it to finish.");
+      if (isRunning) {
+        // Runs after the current one ends
+        sendEvent({ type: "prompts.enqueue", payload: { sessionId: activeSessionId, prompt, attachments: promptAttachments } });
+        setPrompt("");
+        setAttachments([]);
         return;
       }
-      sendEvent({ type: "session.continue", payload: { sessionId: activeSessionId, prompt, cwd: activeSession?.cwd  } });
+      sendEvent({ type: "session.continue", payload: { sessionId: activeSessionId, prompt, attachments: promptAttachments, cwd: activeSession?.cwd  } });
       setPrompt("");
+      setAttachments([]);
     }
-  }, [activeSession, activeSessionId, cwd, prompt, sendEvent, setGlobalError, setPendingStart, setPrompt]);
+  }, [activeSession, activeSessionId, attachments, cwd, disabledTools, isRunning, permissionMode, prompt, selectedAgentId, selectedModel, sendEvent, setAttachments, setPendingStartId, setPrompt]);
 
   const handleStop = useCallback(() => {
     if (!activeSessionId) return;
@@ -65,22 +89,38 @@ export function usePromptActions(sendEvent: (event: ClientEvent) => void) {
 export function PromptInput({ sendEvent, onSendMessage, disabled = false }: PromptInputProps) {
   const { prompt, setPrompt, isRunning, handleSend, handleStop } = usePromptActions(sendEvent);
   const promptRef = useRef<HTMLTextAreaElement | null>(null);
+  // Keep clear of the memory panel on the right
+  const showMemoryPanel = useAppStore((state) => state.showMemoryPanel && state.activeSessionId !== null);
+  const isReadOnly = useAppStore((state) => (state.activeSessionId ? state.sessions[state.activeSessionId]?.readOnly : false) ?? false);
+  const activeCwd = useAppStore((state) => (state.activeSessionId ? state.sessions[state.activeSessionId]?.cwd : undefined));
+  const { attachments, removeAttachment, handlePaste, dropHandlers, dragging } = useAttachments();
+  const mention = useFileMention(activeCwd, prompt, setPrompt, promptRef);
+  const commands = useSlashCommands(prompt, setPrompt, sendEvent);
+  const history = usePromptHistory(prompt, setPrompt, sendEvent);
+  const setTemplateLibrary = useAppStore((state) => state.setTemplateLibrary);
+  // While running, typed text is queued and the button only stops an empty prompt
+  const showStop = isRunning && !prompt.trim() && attachments.length === 0;
+  const canAttach = !disabled || isRunning;
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (disabled && !isRunning) return;
+    if (mention.handleMentionKeyDown(e)) return;
+    if (commands.handleCommandKeyDown(e)) return;
+    if (history.handleHistoryKeyDown(e)) return;
     if (e.key !== "Enter" || e.shiftKey) return;
     e.preventDefault();
-    if (isRunning) { handleStop(); return; }
-    onSendMessage?.();
+    if (showStop) { handleStop(); return; }
+    if (!isRunning) onSendMessage?.();
     handleSend();
   };
 
   const handleButtonClick = () => {
     if (disabled && !isRunning) return;
-    if (isRunning) {
+    if (commands.runTypedCommand()) return;
+    if (showStop) {
       handleStop();
     } else {
-      onSendMessage?.();
+      if (!isRunning) onSendMessage?.();
       handleSend();
     }
   };
@@ -112,32 +152,86 @@ export function PromptInput({ sendEvent, onSendMessage, disabled = false }: Prom
   }, [prompt]);
 
   return (
-    <section className="fixed bottom-0 left-0 right-0 bg-gradient-to-t from-surface via-surface to-transparent pb-6 px-2 lg:pb-8 pt-8 lg:ml-[280px]">
-      <div className="mx-auto flex w-full max-w-full items-end gap-3 rounded-2xl border border-ink-900/10 bg-surface px-4 py-3 shadow-card lg:max-w-3xl">
-        <textarea
-          rows={1}
-          className="flex-1 resize-none bg-transparent py-1.5 text-sm text-ink-800 placeholder:text-muted focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
-          placeholder={disabled ? "Create/select a task to start..." : "Describe what you want agent to handle..."}
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          onKeyDown={handleKeyDown}
-          onInput={handleInput}
-          ref={promptRef}
-          disabled={disabled && !isRunning}
-        />
-        <button
-          className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-full transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${isRunning ? "bg-error text-white hover:bg-error/90" : "bg-accent text-white hover:bg-accent-hover"}`}
-          onClick={handleButtonClick}
-          aria-label={isRunning ? "Stop session" : "Send prompt"}
-          disabled={disabled && !isRunning}
-        >
-          {isRunning ? (
-            <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor" /></svg>
-          ) : (
-            <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true"><path d="M3.4 20.6 21 12 3.4 3.4l2.8 7.2L16 12l-9.8 1.4-2.8 7.2Z" fill="currentColor" /></svg>
-          )}
-        </button>
+    <section className={`fixed bottom-0 left-0 right-0 bg-gradient-to-t from-surface via-surface to-transparent pb-6 px-2 lg:pb-8 pt-8 lg:ml-[280px] ${showMemoryPanel ? "mr-[340px]" : ""}`}>
+      <PromptQueue sendEvent={sendEvent} />
+      <div
+        className={`relative mx-auto grid w-full max-w-full gap-2 rounded-2xl border bg-surface px-4 py-3 shadow-card transition-colors lg:max-w-3xl ${dragging ? "border-accent ring-1 ring-accent/20" : "border-ink-900/10"}`}
+        {...(canAttach ? dropHandlers : {})}
+      >
+        {history.searching && (
+          <PromptHistorySearch
+            history={history.history}
+            onPick={(text) => {
+              history.pickFromSearch(text);
+              promptRef.current?.focus();
+            }}
+            onClose={() => {
+              history.closeSearch();
+              // Escape leaves focus nowhere; a click elsewhere keeps it there
+              requestAnimationFrame(() => {
+                if (document.activeElement === document.body) promptRef.current?.focus();
+              });
+            }}
+          />
+        )}
+        {!history.searching && mention.mentionQuery === null && (
+          <SlashCommandMenu items={commands.items} selectedIndex={commands.selectedIndex} onChoose={commands.chooseItem} />
+        )}
+        {mention.mentionQuery !== null && (
+          <FileMentionMenu
+            query={mention.mentionQuery}
+            suggestions={mention.suggestions}
+            selectedIndex={mention.selectedIndex}
+            hasFiles={mention.hasFiles}
+            onSelect={mention.selectFile}
+          />
+        )}
+        <AttachmentChips attachments={attachments} onRemove={removeAttachment} />
+        <div className="flex items-end gap-3">
+          <button
+            className="flex h-9 w-7 shrink-0 items-center justify-center rounded-lg text-muted transition-colors hover:text-ink-700 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={() => setTemplateLibrary({ query: "" })}
+            aria-label="Prompt templates"
+            title="Prompt templates"
+            disabled={disabled && !isRunning}
+          >
+            <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="1.8" aria-hidden="true">
+              <rect x="4" y="3" width="16" height="18" rx="2" />
+              <path d="M8 8h8M8 12h8M8 16h5" />
+            </svg>
+          </button>
+          <textarea
+            rows={1}
+            className="flex-1 resize-none bg-transparent py-1.5 text-sm text-ink-800 placeholder:text-muted focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+            placeholder={isReadOnly ? "Imported transcripts are read-only" : disabled ? "Create/select a task to start..." : isRunning ? "Queue a follow-up for when this run ends..." : "Describe what you want agent to handle, @ to mention a file, / for commands..."}
+            value={prompt}
+            onChange={(e) => {
+              setPrompt(e.target.value);
+              commands.handleCommandChange(e.target.value);
+            }}
+            onSelect={(e) => mention.updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+            onBlur={mention.closeMention}
+            onKeyDown={handleKeyDown}
+            onInput={handleInput}
+            onPaste={canAttach ? handlePaste : undefined}
+            ref={promptRef}
+            disabled={disabled && !isRunning}
+          />
+          <button
+            className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-full transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${showStop ? "bg-error text-white hover:bg-error/90" : "bg-accent text-white hover:bg-accent-hover"}`}
+            onClick={handleButtonClick}
+            aria-label={showStop ? "Stop session" : isRunning ? "Queue prompt" : "Send prompt"}
+            disabled={disabled && !isRunning}
+          >
+            {showStop ? (
+              <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor" /></svg>
+            ) : (
+              <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true"><path d="M3.4 20.6 21 12 3.4 3.4l2.8 7.2L16 12l-9.8 1.4-2.8 7.2Z" fill="currentColor" /></svg>
+            )}
+          </button>
+        </div>
       </div>
+      <SessionUsageFooter />
     </section>
   );
 }
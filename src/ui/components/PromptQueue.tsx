@@ -0,0 +1,86 @@
+import { useState } from "react";
+import type { ClientEvent, QueuedPrompt } from "../types";
+import { useAppStore } from "../store/useAppStore";
+
+interface PromptQueueProps {
+  sendEvent: (event: ClientEvent) => void;
+}
+
+const EMPTY_QUEUE: QueuedPrompt[] = [];
+
+const chipButtonClassName = "rounded-full p-0.5 text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+export function PromptQueue({ sendEvent }: PromptQueueProps) {
+  const activeSessionId = useAppStore((state) => state.activeSessionId);
+  const prompts = useAppStore((state) => (state.activeSessionId ? state.promptQueues[state.activeSessionId] : undefined) ?? EMPTY_QUEUE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  if (!activeSessionId || prompts.length === 0) return null;
+
+  const move = (index: number, offset: number) => {
+    const ids = prompts.map((queued) => queued.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    sendEvent({ type: "prompts.reorder", payload: { sessionId: activeSessionId, promptIds: ids } });
+  };
+
+  const startEdit = (queued: QueuedPrompt) => {
+    setEditingId(queued.id);
+    setEditText(queued.prompt);
+  };
+
+  const commitEdit = () => {
+    if (editingId && editText.trim()) {
+      sendEvent({ type: "prompts.update", payload: { sessionId: activeSessionId, promptId: editingId, prompt: editText.trim() } });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mx-auto mb-2 flex w-full max-w-full flex-wrap items-center gap-2 lg:max-w-3xl">
+      <span className="text-[11px] font-medium uppercase tracking-wide text-muted-light">Up next</span>
+      {prompts.map((queued, index) => (
+        <div key={queued.id} className="flex max-w-[280px] items-center gap-1 rounded-full border border-ink-900/10 bg-surface py-1 pl-3 pr-1.5 shadow-soft">
+          <span className="text-[11px] tabular-nums text-muted-light">{index + 1}</span>
+          {editingId === queued.id ? (
+            <input
+              className="w-44 bg-transparent text-xs text-ink-800 focus:outline-none"
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitEdit();
+                if (e.key === "Escape") setEditingId(null);
+              }}
+              autoFocus
+            />
+          ) : (
+            <button type="button" className="truncate text-xs text-ink-700 hover:text-ink-800" onClick={() => startEdit(queued)} title={queued.prompt}>
+              {queued.prompt}
+            </button>
+          )}
+          {queued.attachments && queued.attachments.length > 0 && (
+            <span className="shrink-0 text-[11px] text-muted" title={queued.attachments.map((attachment) => attachment.name).join("\n")}>
+              +{queued.attachments.length} {queued.attachments.length === 1 ? "file" : "files"}
+            </span>
+          )}
+          <button type="button" className={chipButtonClassName} onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move earlier">
+            <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M15 18l-6-6 6-6" /></svg>
+          </button>
+          <button type="button" className={chipButtonClassName} onClick={() => move(index, 1)} disabled={index === prompts.length - 1} aria-label="Move later">
+            <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M9 18l6-6-6-6" /></svg>
+          </button>
+          <button
+            type="button"
+            className={chipButtonClassName}
+            onClick={() => sendEvent({ type: "prompts.remove", payload: { sessionId: activeSessionId, promptId: queued.id } })}
+            aria-label="Remove queued prompt"
+          >
+            <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
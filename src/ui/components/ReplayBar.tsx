@@ -0,0 +1,51 @@
+import type { ReplayState } from "../store/useAppStore";
+import { REPLAY_SPEEDS } from "../hooks/useReplay";
+
+interface ReplayBarProps {
+  replay?: ReplayState;
+  total: number;
+  onPlay: (speed: number) => void;
+  onPause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export function ReplayBar({ replay, total, onPlay, onPause, onSpeedChange, onExit }: ReplayBarProps) {
+  const speed = replay?.speed ?? 1;
+  const position = replay?.position ?? total;
+
+  return (
+    <div className="flex items-center gap-3 border-b border-ink-900/10 bg-surface px-6 py-2 text-xs">
+      <span className="rounded-full bg-surface-tertiary px-2 py-0.5 text-[11px] font-medium text-muted">Read-only transcript</span>
+      <div className="ml-auto flex items-center gap-2">
+        {replay?.playing ? (
+          <button className="rounded-full border border-ink-900/10 px-3 py-1 text-ink-700 hover:bg-surface-tertiary transition-colors" onClick={onPause}>
+            Pause
+          </button>
+        ) : (
+          <button className="rounded-full bg-accent px-3 py-1 font-medium text-white hover:bg-accent-hover transition-colors" onClick={() => onPlay(speed)}>
+            {replay && replay.position < total ? "Resume" : "Replay"}
+          </button>
+        )}
+        <div className="flex items-center rounded-full border border-ink-900/10 p-0.5">
+          {REPLAY_SPEEDS.map((value) => (
+            <button
+              key={value}
+              className={`rounded-full px-2 py-0.5 transition-colors ${speed === value ? "bg-accent/10 text-ink-800" : "text-muted hover:text-ink-700"}`}
+              onClick={() => (replay ? onSpeedChange(value) : onPlay(value))}
+              title={value === 1 ? "Original pace" : `${value}× faster`}
+            >
+              {value === 1 ? "1×" : `${value}×`}
+            </button>
+          ))}
+        </div>
+        <span className="min-w-[4.5rem] text-right tabular-nums text-muted">{position} / {total}</span>
+        {replay && (
+          <button className="rounded-full px-2 py-1 text-muted hover:text-ink-700" onClick={onExit}>
+            Show all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
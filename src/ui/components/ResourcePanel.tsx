@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useAppStore } from "../store/useAppStore";
+import { useResourceStatistics } from "../hooks/useResourceStatistics";
+import { formatDuration } from "../usage";
+
+function formatBytes(bytes: number): string {
+  const megabytes = bytes / 1024 / 1024;
+  return megabytes < 1024 ? `${Math.round(megabytes)} MB` : `${(megabytes / 1024).toFixed(1)} GB`;
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function Meter({ label, share, detail }: { label: string; share: number; detail?: string }) {
+  return (
+    <div className="grid gap-0.5" title={detail}>
+      <div className="flex justify-between text-[11px] text-muted">
+        <span>{label}</span>
+        <span>{formatPercent(share)}</span>
+      </div>
+      <div className="h-1 overflow-hidden rounded-full bg-ink-900/10">
+        <div className={`h-full rounded-full ${share > 0.9 ? "bg-error" : "bg-accent/70"}`} style={{ width: formatPercent(Math.min(1, share)) }} />
+      </div>
+    </div>
+  );
+}
+
+export function ResourcePanel() {
+  const sessions = useAppStore((state) => state.sessions);
+  const isAnyRunning = useAppStore((state) => Object.values(state.sessions).some((session) => session.status === "running"));
+  const [expanded, setExpanded] = useState(false);
+  const [warningDraft, setWarningDraft] = useState<string | null>(null);
+  // Letta Code processes only live during runs, so a collapsed panel samples just then, for the warning
+  const { statistics, staticData, setMemoryWarning } = useResourceStatistics(expanded || isAnyRunning);
+
+  const memoryWarningMB = staticData?.memoryWarningMB;
+  const limitBytes = memoryWarningMB ? memoryWarningMB * 1024 * 1024 : Infinity;
+  const processes = statistics?.processes ?? [];
+  const runaway = processes.filter((proc) => (proc.rssBytes ?? 0) > limitBytes);
+  const sessionTitle = (sessionId: string) => (sessionId === "pending" ? "Starting session…" : sessions[sessionId]?.title || sessionId);
+
+  const commitWarning = () => {
+    if (warningDraft === null) return;
+    const megabytes = Number(warningDraft);
+    if (Number.isFinite(megabytes) && megabytes > 0) setMemoryWarning(megabytes);
+    setWarningDraft(null);
+  };
+
+  return (
+    <div className="grid gap-2 rounded-xl border border-ink-900/5 bg-surface px-3 py-2.5">
+      <button
+        className="flex items-center gap-1.5 text-left text-xs text-ink-700"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+      >
+        <span className="text-[8px] text-muted">{expanded ? "▼" : "▶"}</span>
+        <span className="font-medium">Resources</span>
+        {runaway.length > 0 && <span className="ml-auto text-error">{runaway.length} over limit</span>}
+      </button>
+      {expanded && (
+        !statistics ? (
+          <div className="text-[11px] text-muted">Sampling…</div>
+        ) : (
+          <>
+            <div className="grid gap-1.5">
+              <Meter label="CPU" share={statistics.cpuUsage} detail={staticData?.cpuModel} />
+              <Meter label="Memory" share={statistics.ramUsage} detail={staticData ? `${staticData.totalMemoryGB} GB total` : undefined} />
+              <Meter label="Disk" share={statistics.storageData} detail={staticData ? `${staticData.totalStorage} GB total` : undefined} />
+            </div>
+            {runaway.map((proc) => (
+              <div key={proc.pid} className="rounded-lg bg-error-light px-2 py-1 text-[11px] text-error">
+                Letta Code for "{sessionTitle(proc.sessionId)}" is using {formatBytes(proc.rssBytes ?? 0)}, over the {memoryWarningMB} MB limit.
+              </div>
+            ))}
+            <div className="grid gap-1">
+              <span className="text-[11px] text-muted">Letta Code processes</span>
+              {processes.length === 0 ? (
+                <span className="text-[11px] text-muted-light">None running</span>
+              ) : processes.map((proc) => (
+                <div key={proc.pid} className="grid text-[11px]">
+                  <span className={`truncate ${runaway.includes(proc) ? "text-error" : "text-ink-700"}`} title={`pid ${proc.pid}`}>
+                    {sessionTitle(proc.sessionId)}
+                  </span>
+                  <span className="text-muted">
+                    {proc.cpuUsage === undefined ? "–" : formatPercent(proc.cpuUsage)} CPU
+                    {" · "}{proc.rssBytes === undefined ? "–" : formatBytes(proc.rssBytes)}
+                    {" · "}{formatDuration(proc.runtimeMs)}
+                    {proc.openHandles !== undefined && ` · ${proc.openHandles} handles`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-[11px] text-muted">
+              Warn above
+              <input
+                type="number"
+                min={1}
+                className="w-16 rounded-md border border-ink-900/10 bg-surface-secondary px-1.5 py-0.5 text-ink-800 focus:border-accent focus:outline-none"
+                value={warningDraft ?? memoryWarningMB ?? ""}
+                onChange={(e) => setWarningDraft(e.target.value)}
+                onBlur={commitWarning}
+                onKeyDown={(e) => e.key === "Enter" && commitWarning()}
+              />
+              MB per process
+            </label>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { SearchHit, SearchResult, SearchSnippet } from "../types";
+
+const KIND_LABELS: Record<SearchHit["kind"], string> = {
+  user: "You",
+  assistant: "Assistant",
+  tool_call: "Tool call",
+  tool_result: "Output",
+};
+
+interface SearchResultsProps {
+  // null while the main process is still answering the current query
+  results: SearchResult[] | null;
+  onOpenSession: (sessionId: string) => void;
+  onOpenHit: (sessionId: string, position: number) => void;
+}
+
+function Snippet({ snippet }: { snippet: SearchSnippet }) {
+  return (
+    <>
+      {snippet.map((part, index) => (
+        part.match
+          ? <mark key={index} className="rounded-sm bg-warning-light px-0.5 text-ink-900">{part.text}</mark>
+          : <span key={index}>{part.text}</span>
+      ))}
+    </>
+  );
+}
+
+export function SearchResults({ results, onOpenSession, onOpenHit }: SearchResultsProps) {
+  if (!results) {
+    return <div className="px-2 py-4 text-center text-xs text-muted">Searching…</div>;
+  }
+  if (results.length === 0) {
+    return <div className="rounded-xl border border-ink-900/5 bg-surface px-4 py-5 text-center text-xs text-muted">No matches</div>;
+  }
+
+  return (
+    <>
+      {results.map((result) => (
+        <div key={result.sessionId} className="rounded-xl border border-ink-900/5 bg-surface px-2 py-2">
+          <button
+            className="w-full truncate rounded-md px-1 text-left text-[12px] font-medium text-ink-800 hover:text-accent"
+            onClick={() => onOpenSession(result.sessionId)}
+            title={result.title}
+          >
+            {result.titleSnippet ? <Snippet snippet={result.titleSnippet} /> : result.title}
+          </button>
+          {result.hits.map((hit) => (
+            <button
+              key={hit.position}
+              className="mt-1 block w-full rounded-lg px-1 py-1 text-left text-xs text-ink-700 hover:bg-surface-tertiary"
+              onClick={() => onOpenHit(result.sessionId, hit.position)}
+            >
+              <span className="mr-1 text-[10px] uppercase tracking-wide text-muted">{KIND_LABELS[hit.kind]}</span>
+              <span className="line-clamp-3 break-words"><Snippet snippet={hit.snippet} /></span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+import { useAppStore } from "../store/useAppStore";
+import { formatCost, formatDuration, formatTokens } from "../usage";
+
+export function SessionUsageFooter() {
+  const usage = useAppStore((state) => (state.activeSessionId ? state.usage[state.activeSessionId] : undefined));
+  const setShowUsageDashboard = useAppStore((state) => state.setShowUsageDashboard);
+
+  if (!usage || usage.runs === 0) return null;
+
+  const details = [
+    `${usage.runs} run${usage.runs === 1 ? "" : "s"}`,
+    `${usage.promptTokens.toLocaleString()} prompt tokens`,
+    `${usage.completionTokens.toLocaleString()} completion tokens (${usage.reasoningTokens.toLocaleString()} reasoning)`,
+    usage.unpricedRuns > 0 ? `${usage.unpricedRuns} run(s) on models without a price` : null,
+  ].filter(Boolean).join("\n");
+
+  return (
+    <div className="mx-auto mt-1.5 flex w-full max-w-full justify-end px-2 lg:max-w-3xl">
+      <button
+        className="flex items-center gap-2 rounded-full px-2 py-0.5 text-[11px] text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors"
+        onClick={() => setShowUsageDashboard(true)}
+        title={`${details}\n\nClick for the usage dashboard`}
+      >
+        <span>{formatTokens(usage.promptTokens)} in</span>
+        <span>{formatTokens(usage.completionTokens)} out</span>
+        {usage.reasoningTokens > 0 && <span>{formatTokens(usage.reasoningTokens)} reasoning</span>}
+        <span>{formatDuration(usage.durationMs)}</span>
+        <span className="font-medium">{formatCost(usage)}</span>
+      </button>
+    </div>
+  );
+}
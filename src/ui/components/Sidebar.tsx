@@ -1,37 +1,160 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
 import * as Dialog from "@radix-ui/react-dialog";
-import { useAppStore } from "../store/useAppStore";
+import { useAppStore, type SessionView } from "../store/useAppStore";
+import { EXPORT_FORMATS, exportSession } from "../render/export";
+import type { SessionOrganization } from "../types";
+import { SearchResults } from "./SearchResults";
+import { ResourcePanel } from "./ResourcePanel";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type SessionGrouping = "recent" | "project" | "agent";
+
+const GROUPINGS: Array<{ value: SessionGrouping; label: string }> = [
+  { value: "recent", label: "Recent" },
+  { value: "project", label: "Project" },
+  { value: "agent", label: "Agent" },
+];
+
+type SessionGroup = {
+  key: string;
+  label: string;
+  // Full path or id behind a shortened label
+  hint?: string;
+  sessions: SessionView[];
+};
+
+const formatCwd = (cwd?: string) => {
+  if (!cwd) return "Working dir unavailable";
+  const parts = cwd.split(/[\\/]+/).filter(Boolean);
+  const tail = parts.slice(-2).join("/");
+  return `/${tail || cwd}`;
+};
 
 interface SidebarProps {
   connected: boolean;
   onNewSession: () => void;
   onDeleteSession: (sessionId: string) => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  onGenerateTitle: (sessionId: string) => void;
+  onOrganizeSession: (sessionId: string, updates: SessionOrganization) => void;
+  onImportTranscript: () => void;
+  onSetRunLimit: (limit: number) => void;
+  onCancelQueuedRun: (runId: string) => void;
+  onSearch: (query: string) => void;
+  onOpenSearchHit: (sessionId: string, position: number) => void;
 }
 
 export function Sidebar({
   onNewSession,
-  onDeleteSession
+  onDeleteSession,
+  onRenameSession,
+  onGenerateTitle,
+  onOrganizeSession,
+  onImportTranscript,
+  onSetRunLimit,
+  onCancelQueuedRun,
+  onSearch,
+  onOpenSearchHit
 }: SidebarProps) {
   const sessions = useAppStore((state) => state.sessions);
+  const runQueue = useAppStore((state) => state.runQueue);
   const activeSessionId = useAppStore((state) => state.activeSessionId);
   const setActiveSessionId = useAppStore((state) => state.setActiveSessionId);
+  const setGlobalError = useAppStore((state) => state.setGlobalError);
+  const setShowUsageDashboard = useAppStore((state) => state.setShowUsageDashboard);
+  const searchResults = useAppStore((state) => state.searchResults);
+  const agents = useAppStore((state) => state.agents);
+  const [grouping, setGrouping] = useState<SessionGrouping>("recent");
+  // Archived sessions stay out of the way until asked for
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => new Set(["archived"]));
+  const [searchQuery, setSearchQuery] = useState("");
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [tagsSessionId, setTagsSessionId] = useState<string | null>(null);
+  const [tagsDraft, setTagsDraft] = useState("");
   const [resumeSessionId, setResumeSessionId] = useState<string | null>(null);
+  const [exportSessionId, setExportSessionId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
   const [copied, setCopied] = useState(false);
   const closeTimerRef = useRef<number | null>(null);
+  const discardRenameRef = useRef(false);
+  const renameFocusRef = useRef(false);
 
-  const formatCwd = (cwd?: string) => {
-    if (!cwd) return "Working dir unavailable";
-    const parts = cwd.split(/[\\/]+/).filter(Boolean);
-    const tail = parts.slice(-2).join("/");
-    return `/${tail || cwd}`;
-  };
-
-  const sessionList = useMemo(() => {
+  // Pinned sessions first and archived ones last, the rest grouped as chosen
+  const sessionGroups = useMemo(() => {
     const list = Object.values(sessions);
     list.sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
-    return list;
-  }, [sessions]);
+    const agentNames = new Map(agents.map((agent) => [agent.id, agent.name]));
+    const groups: SessionGroup[] = [];
+    const groupFor = (key: string, label: string, hint?: string) => {
+      let group = groups.find((candidate) => candidate.key === key);
+      if (!group) {
+        group = { key, label, hint, sessions: [] };
+        groups.push(group);
+      }
+      return group;
+    };
+
+    const pinned = list.filter((session) => session.pinned && !session.archived);
+    if (pinned.length > 0) groups.push({ key: "pinned", label: "Pinned", sessions: pinned });
+    for (const session of list) {
+      if (session.pinned || session.archived) continue;
+      if (grouping === "project") {
+        groupFor(`project:${session.cwd ?? ""}`, session.cwd ? formatCwd(session.cwd) : "No working directory", session.cwd).sessions.push(session);
+      } else if (grouping === "agent") {
+        const name = session.agentId ? agentNames.get(session.agentId) ?? session.agentId : "Default agent";
+        groupFor(`agent:${session.agentId ?? ""}`, name, session.agentId).sessions.push(session);
+      } else {
+        groupFor("recent", "Recent").sessions.push(session);
+      }
+    }
+    const archived = list.filter((session) => session.archived);
+    if (archived.length > 0) groups.push({ key: "archived", label: "Archived", sessions: archived });
+    return groups;
+  }, [sessions, agents, grouping]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const startEditTags = (sessionId: string, tags?: string[]) => {
+    setTagsSessionId(sessionId);
+    setTagsDraft(tags?.join(", ") ?? "");
+  };
+
+  const saveTags = () => {
+    if (!tagsSessionId) return;
+    const tags = Array.from(new Set(tagsDraft.split(",").map((tag) => tag.trim()).filter(Boolean)));
+    onOrganizeSession(tagsSessionId, { tags });
+    setTagsSessionId(null);
+  };
+
+  const startRename = (sessionId: string, title: string) => {
+    setRenamingSessionId(sessionId);
+    setTitleDraft(title);
+  };
+
+  // Leaving the field saves the title unless Escape asked to discard it
+  const finishRename = () => {
+    const session = renamingSessionId ? sessions[renamingSessionId] : undefined;
+    const title = titleDraft.trim();
+    if (!discardRenameRef.current && session && title && title !== session.title) onRenameSession(session.id, title);
+    discardRenameRef.current = false;
+    setRenamingSessionId(null);
+  };
+
+  const trimmedQuery = searchQuery.trim();
+  useEffect(() => {
+    if (!trimmedQuery) return;
+    const timer = window.setTimeout(() => onSearch(trimmedQuery), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [trimmedQuery, onSearch]);
 
   useEffect(() => {
     setCopied(false);
@@ -67,6 +190,147 @@ export function Sidebar({
     }, 3000);
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    const session = exportSessionId ? sessions[exportSessionId] : undefined;
+    if (!session) return;
+    setExporting(true);
+    try {
+      const path = await exportSession(session, format);
+      if (path) setExportSessionId(null);
+    } catch (error) {
+      setGlobalError(`Export failed: ${String(error)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderSession = (session: SessionView) => (
+    <div
+      key={session.id}
+      className={`cursor-pointer rounded-xl border px-2 py-3 text-left transition ${activeSessionId === session.id ? "border-accent/30 bg-accent-subtle" : "border-ink-900/5 bg-surface hover:bg-surface-tertiary"}`}
+      onClick={() => setActiveSessionId(session.id)}
+      onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); setActiveSessionId(session.id); } }}
+      role="button"
+      tabIndex={0}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-col min-w-0 flex-1 overflow-hidden">
+          {renamingSessionId === session.id ? (
+            <input
+              className="rounded-md border border-accent/40 bg-surface px-1 py-0.5 text-[12px] font-medium text-ink-800 focus:outline-none"
+              value={titleDraft}
+              autoFocus
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === "Escape") discardRenameRef.current = true;
+                if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+              }}
+              onBlur={finishRename}
+              aria-label="Session title"
+            />
+          ) : (
+            <div
+              className={`flex items-center gap-1 truncate text-[12px] font-medium ${session.status === "running" ? "text-info" : session.status === "queued" ? "text-warning" : session.status === "completed" ? "text-success" : session.status === "error" ? "text-error" : "text-ink-800"}`}
+              onDoubleClick={(e) => { e.stopPropagation(); startRename(session.id, session.title); }}
+              title={session.title}
+            >
+              {session.pinned && (
+                <svg viewBox="0 0 24 24" className="h-3 w-3 shrink-0 text-muted" fill="currentColor" aria-label="Pinned">
+                  <path d="M15 3l6 6-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4z" />
+                </svg>
+              )}
+              <span className="truncate">{session.title}</span>
+            </div>
+          )}
+          <div className="flex items-center justify-between mt-0.5 text-xs text-muted">
+            <span className="truncate">{formatCwd(session.cwd)}</span>
+            {session.readOnly && <span className="shrink-0 rounded-full bg-surface-tertiary px-1.5 text-[10px]">Imported</span>}
+          </div>
+          {session.tags && session.tags.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {session.tags.map((tag) => (
+                <span key={tag} className="rounded-full bg-accent/10 px-1.5 text-[10px] text-accent">{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+        <DropdownMenu.Root>
+          <DropdownMenu.Trigger asChild>
+            <button className="flex-shrink-0 rounded-full p-1.5 text-ink-500 hover:bg-ink-900/10" aria-label="Open session menu" onClick={(e) => e.stopPropagation()} onPointerDown={(e) => e.stopPropagation()}>
+              <svg viewBox="0 0 24 24" className="h-4 w-4" fill="currentColor">
+                <circle cx="5" cy="12" r="1.7" />
+                <circle cx="12" cy="12" r="1.7" />
+                <circle cx="19" cy="12" r="1.7" />
+              </svg>
+            </button>
+          </DropdownMenu.Trigger>
+          <DropdownMenu.Portal>
+            <DropdownMenu.Content
+              className="z-50 min-w-[220px] rounded-xl border border-ink-900/10 bg-surface p-1 shadow-lg"
+              align="center"
+              sideOffset={8}
+              // Focus goes to the title field when Rename was picked, not back to the trigger
+              onCloseAutoFocus={(e) => { if (renameFocusRef.current) { e.preventDefault(); renameFocusRef.current = false; } }}
+            >
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => onDeleteSession(session.id)}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-error/80" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M4 7h16" /><path d="M9 7V5a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2" /><path d="M7 7l1 12a1 1 0 0 0 1 .9h6a1 1 0 0 0 1-.9l1-12" />
+                </svg>
+                Delete this session
+              </DropdownMenu.Item>
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => { renameFocusRef.current = true; startRename(session.id, session.title); }}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M4 20h4L19 9l-4-4L4 16z" /><path d="M13 7l4 4" />
+                </svg>
+                Rename
+              </DropdownMenu.Item>
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => onGenerateTitle(session.id)}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M12 3v4M12 17v4M3 12h4M17 12h4" /><path d="M6 6l2 2M16 16l2 2M6 18l2-2M16 8l2-2" />
+                </svg>
+                Generate title
+              </DropdownMenu.Item>
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => onOrganizeSession(session.id, { pinned: !session.pinned })}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M15 3l6 6-3 1-4 4 1 5-2 2-4-4-5 5" /><path d="M9 14L5 10l2-2 5 1 4-4" />
+                </svg>
+                {session.pinned ? "Unpin" : "Pin to top"}
+              </DropdownMenu.Item>
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => startEditTags(session.id, session.tags)}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M3 12V4h8l9 9-8 8z" /><circle cx="7.5" cy="8.5" r="1.2" />
+                </svg>
+                Edit tags…
+              </DropdownMenu.Item>
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => onOrganizeSession(session.id, { archived: !session.archived })}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M3 5h18v4H3z" /><path d="M5 9v10h14V9" /><path d="M10 13h4" />
+                </svg>
+                {session.archived ? "Unarchive" : "Archive"}
+              </DropdownMenu.Item>
+              {!session.readOnly && (
+                <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => setResumeSessionId(session.id)}>
+                  <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                    <path d="M4 5h16v14H4z" /><path d="M7 9h10M7 12h6" /><path d="M13 15l3 2-3 2" />
+                  </svg>
+                  Resume in Letta Code
+                </DropdownMenu.Item>
+              )}
+              <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => setExportSessionId(session.id)}>
+                <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
+                  <path d="M12 4v11" /><path d="M8 11l4 4 4-4" /><path d="M5 19h14" />
+                </svg>
+                Export…
+              </DropdownMenu.Item>
+            </DropdownMenu.Content>
+          </DropdownMenu.Portal>
+        </DropdownMenu.Root>
+      </div>
+    </div>
+  );
+
   return (
     <aside className="fixed inset-y-0 left-0 flex h-full w-[280px] flex-col gap-4 border-r border-border bg-sidebar px-4 pb-4 pt-12">
       <div 
@@ -80,59 +344,116 @@ export function Sidebar({
         >
           + New Task
         </button>
+        <button
+          className="rounded-xl border border-ink-900/10 bg-surface px-3 py-2.5 text-sm text-ink-700 hover:bg-surface-tertiary hover:border-ink-900/20 transition-colors"
+          onClick={onImportTranscript}
+          title="Open an exported JSON transcript read-only"
+        >
+          Import
+        </button>
+        <button
+          className="rounded-xl border border-ink-900/10 bg-surface px-3 py-2.5 text-sm text-ink-700 hover:bg-surface-tertiary hover:border-ink-900/20 transition-colors"
+          onClick={() => setShowUsageDashboard(true)}
+          title="Token usage and estimated cost"
+        >
+          Usage
+        </button>
       </div>
-      <div className="flex flex-col gap-2 overflow-y-auto">
-        {sessionList.length === 0 && (
-          <div className="rounded-xl border border-ink-900/5 bg-surface px-4 py-5 text-center text-xs text-muted">
-            No sessions yet. Click "+ New Task" to start.
-          </div>
-        )}
-        {sessionList.map((session) => (
-          <div
-            key={session.id}
-            className={`cursor-pointer rounded-xl border px-2 py-3 text-left transition ${activeSessionId === session.id ? "border-accent/30 bg-accent-subtle" : "border-ink-900/5 bg-surface hover:bg-surface-tertiary"}`}
-            onClick={() => setActiveSessionId(session.id)}
-            onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); setActiveSessionId(session.id); } }}
-            role="button"
-            tabIndex={0}
-          >
-            <div className="flex items-center justify-between gap-2">
-              <div className="flex flex-col min-w-0 flex-1 overflow-hidden">
-                <div className={`text-[12px] font-medium ${session.status === "running" ? "text-info" : session.status === "completed" ? "text-success" : session.status === "error" ? "text-error" : "text-ink-800"}`}>
-                  {session.title}
-                </div>
-                <div className="flex items-center justify-between mt-0.5 text-xs text-muted">
-                  <span className="truncate">{formatCwd(session.cwd)}</span>
-                </div>
-              </div>
-              <DropdownMenu.Root>
-                <DropdownMenu.Trigger asChild>
-                  <button className="flex-shrink-0 rounded-full p-1.5 text-ink-500 hover:bg-ink-900/10" aria-label="Open session menu" onClick={(e) => e.stopPropagation()} onPointerDown={(e) => e.stopPropagation()}>
-                    <svg viewBox="0 0 24 24" className="h-4 w-4" fill="currentColor">
-                      <circle cx="5" cy="12" r="1.7" />
-                      <circle cx="12" cy="12" r="1.7" />
-                      <circle cx="19" cy="12" r="1.7" />
-                    </svg>
-                  </button>
-                </DropdownMenu.Trigger>
-                <DropdownMenu.Portal>
-                  <DropdownMenu.Content className="z-50 min-w-[220px] rounded-xl border border-ink-900/10 bg-surface p-1 shadow-lg" align="center" sideOffset={8}>
-                    <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => onDeleteSession(session.id)}>
-                      <svg viewBox="0 0 24 24" className="h-4 w-4 text-error/80" fill="none" stroke="currentColor" strokeWidth="1.8">
-                        <path d="M4 7h16" /><path d="M9 7V5a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2" /><path d="M7 7l1 12a1 1 0 0 0 1 .9h6a1 1 0 0 0 1-.9l1-12" />
-                      </svg>
-                      Delete this session
-                    </DropdownMenu.Item>
-                    <DropdownMenu.Item className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-sm text-ink-700 outline-none hover:bg-ink-900/5" onSelect={() => setResumeSessionId(session.id)}>
-                      <svg viewBox="0 0 24 24" className="h-4 w-4 text-ink-500" fill="none" stroke="currentColor" strokeWidth="1.8">
-                        <path d="M4 5h16v14H4z" /><path d="M7 9h10M7 12h6" /><path d="M13 15l3 2-3 2" />
-                      </svg>
-                      Resume in Letta Code
-                    </DropdownMenu.Item>
-                  </DropdownMenu.Content>
-                </DropdownMenu.Portal>
-              </DropdownMenu.Root>
+      <input
+        type="search"
+        className="rounded-xl border border-ink-900/10 bg-surface px-3 py-2 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors"
+        placeholder="Search sessions"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        onKeyDown={(e) => { if (e.key === "Escape") setSearchQuery(""); }}
+      />
+      {trimmedQuery ? (
+        <div className="flex flex-col gap-2 overflow-y-auto">
+          <SearchResults
+            results={searchResults?.query === trimmedQuery ? searchResults.results : null}
+            onOpenSession={setActiveSessionId}
+            onOpenHit={onOpenSearchHit}
+          />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2 overflow-y-auto">
+          {sessionGroups.length === 0 ? (
+            <div className="rounded-xl border border-ink-900/5 bg-surface px-4 py-5 text-center text-xs text-muted">
+              No sessions yet. Click "+ New Task" to start.
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 text-xs">
+              <span className="mr-auto text-muted">Group by</span>
+              {GROUPINGS.map((option) => (
+                <button
+                  key={option.value}
+                  className={`rounded-md px-2 py-0.5 transition-colors ${grouping === option.value ? "bg-ink-900/10 text-ink-800" : "text-muted hover:text-ink-700"}`}
+                  onClick={() => setGrouping(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
             </div>
+          )}
+          {sessionGroups.map((group) => {
+            // A lone list of recent sessions needs no header
+            if (group.key === "recent" && sessionGroups.length === 1) {
+              return group.sessions.map(renderSession);
+            }
+            const collapsed = collapsedGroups.has(group.key);
+            return (
+              <div key={group.key} className="flex flex-col gap-2">
+                <button
+                  className="flex items-center gap-1.5 px-1 pt-1 text-left text-[11px] font-medium uppercase tracking-wide text-muted hover:text-ink-700"
+                  onClick={() => toggleGroup(group.key)}
+                  title={group.hint}
+                  aria-expanded={!collapsed}
+                >
+                  <span className="text-[8px]">{collapsed ? "▶" : "▼"}</span>
+                  <span className="truncate">{group.label}</span>
+                  <span className="ml-auto font-normal normal-case">{group.sessions.length}</span>
+                </button>
+                {!collapsed && group.sessions.map(renderSession)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="mt-auto">
+        <ResourcePanel />
+      </div>
+      <div className="grid gap-2 rounded-xl border border-ink-900/5 bg-surface px-3 py-2.5">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-ink-700">
+            <span className="font-medium">{runQueue.active}</span> running
+            {runQueue.queued.length > 0 && <span className="text-warning"> · {runQueue.queued.length} queued</span>}
+          </span>
+          <div className="flex items-center gap-1 text-muted" title="Maximum concurrent runs">
+            <button
+              className="rounded-md px-1.5 hover:bg-ink-900/10 disabled:opacity-40"
+              onClick={() => onSetRunLimit(runQueue.limit - 1)}
+              disabled={runQueue.limit <= 1}
+              aria-label="Decrease concurrent run limit"
+            >
+              −
+            </button>
+            <span className="min-w-[3.5rem] text-center">max {runQueue.limit}</span>
+            <button
+              className="rounded-md px-1.5 hover:bg-ink-900/10"
+              onClick={() => onSetRunLimit(runQueue.limit + 1)}
+              aria-label="Increase concurrent run limit"
+            >
+              +
+            </button>
+          </div>
+        </div>
+        {runQueue.queued.map((run) => (
+          <div key={run.runId} className="flex items-center gap-2 text-xs text-muted">
+            <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-warning" />
+            <span className="flex-1 truncate" title={run.title}>{run.title || "New task"}</span>
+            <button className="rounded-full p-0.5 hover:bg-ink-900/10" onClick={() => onCancelQueuedRun(run.runId)} aria-label="Cancel queued run">
+              <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+            </button>
           </div>
         ))}
       </div>
@@ -163,6 +484,68 @@ export function Sidebar({
           </Dialog.Content>
         </Dialog.Portal>
       </Dialog.Root>
+      <Dialog.Root open={!!tagsSessionId} onOpenChange={(open) => !open && setTagsSessionId(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-ink-900/40 backdrop-blur-sm" />
+          <Dialog.Content className="fixed left-1/2 top-1/2 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-surface p-6 shadow-xl">
+            <div className="flex items-start justify-between gap-4">
+              <Dialog.Title className="text-lg font-semibold text-ink-800">Tags</Dialog.Title>
+              <Dialog.Close asChild>
+                <button className="rounded-full p-1 text-ink-500 hover:bg-ink-900/10" aria-label="Close dialog">
+                  <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M6 6l12 12M18 6l-12 12" />
+                  </svg>
+                </button>
+              </Dialog.Close>
+            </div>
+            <form className="mt-4 grid gap-3" onSubmit={(e) => { e.preventDefault(); saveTags(); }}>
+              <input
+                className="rounded-xl border border-ink-900/10 bg-surface px-3 py-2 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors"
+                placeholder="frontend, bug, v2"
+                value={tagsDraft}
+                onChange={(e) => setTagsDraft(e.target.value)}
+                autoFocus
+              />
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted">Separate tags with commas</span>
+                <button type="submit" className="rounded-xl bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-hover transition-colors">
+                  Save
+                </button>
+              </div>
+            </form>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+      <Dialog.Root open={!!exportSessionId} onOpenChange={(open) => !open && !exporting && setExportSessionId(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-ink-900/40 backdrop-blur-sm" />
+          <Dialog.Content className="fixed left-1/2 top-1/2 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-surface p-6 shadow-xl">
+            <div className="flex items-start justify-between gap-4">
+              <Dialog.Title className="text-lg font-semibold text-ink-800">Export</Dialog.Title>
+              <Dialog.Close asChild>
+                <button className="rounded-full p-1 text-ink-500 hover:bg-ink-900/10" aria-label="Close dialog" disabled={exporting}>
+                  <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M6 6l12 12M18 6l-12 12" />
+                  </svg>
+                </button>
+              </Dialog.Close>
+            </div>
+            <div className="mt-4 grid gap-2">
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  className="rounded-xl border border-ink-900/10 bg-surface px-4 py-3 text-left hover:border-ink-900/20 hover:bg-surface-tertiary transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => handleExport(format.value)}
+                  disabled={exporting}
+                >
+                  <div className="text-sm font-medium text-ink-800">{format.label}</div>
+                  <div className="mt-0.5 text-xs text-muted">{format.description}</div>
+                </button>
+              ))}
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
     </aside>
   );
 }
@@ -0,0 +1,46 @@
+import type { SlashMenuItem } from "../hooks/useSlashCommands";
+
+interface SlashCommandMenuProps {
+  items: SlashMenuItem[];
+  selectedIndex: number;
+  onChoose: (item: SlashMenuItem) => void;
+}
+
+export function SlashCommandMenu({ items, selectedIndex, onChoose }: SlashCommandMenuProps) {
+  if (items.length === 0) return null;
+
+  return (
+    // Clicks must not blur the textarea
+    <div
+      className="absolute bottom-full left-0 right-0 mb-2 overflow-hidden rounded-xl border border-ink-900/10 bg-surface shadow-elevated"
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <ul className="max-h-64 overflow-y-auto py-1" role="listbox">
+        {items.map((item, index) => (
+          <li key={item.kind === "argument" ? `${item.command.name} ${item.value}` : item.command.name} role="option" aria-selected={index === selectedIndex}>
+            <button
+              type="button"
+              className={`flex w-full items-baseline gap-2 px-3 py-1.5 text-left text-xs ${index === selectedIndex ? "bg-accent/10" : "hover:bg-surface-secondary"}`}
+              onClick={() => onChoose(item)}
+            >
+              {item.kind === "argument" ? (
+                <span className="truncate text-ink-700">
+                  <span className="text-muted">/{item.command.name} </span>{item.value}
+                </span>
+              ) : (
+                <>
+                  <span className="shrink-0 font-medium text-ink-800">/{item.command.name}</span>
+                  {item.command.argumentHint && <span className="shrink-0 font-mono text-[11px] text-muted-light">{item.command.argumentHint}</span>}
+                  <span className="min-w-0 truncate text-muted">{item.command.description}</span>
+                </>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="border-t border-ink-900/5 px-3 py-1.5 text-[10px] text-muted-light">
+        Enter runs · Tab completes · Esc sends the text as a prompt instead
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,39 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import type { AgentSummary, ApprovalMode, ModelSummary, WorkspaceProfile } from "../types";
+import { APPROVAL_MODES, AVAILABLE_TOOLS, READ_ONLY_TOOL_NAMES } from "../tools";
+import { fuzzyFilter, fuzzyMatch } from "../fuzzy";
+import { AgentPicker } from "./AgentPicker";
+import { ModelSelect } from "./ModelSelect";
+import { AttachmentChips } from "./AttachmentChips";
+import { useAttachments } from "../hooks/useAttachments";
+
+const RECENT_CWD_LIMIT = 10;
 
 interface StartSessionModalProps {
   cwd: string;
   prompt: string;
+  permissionMode: ApprovalMode;
+  disabledTools: string[];
+  agents: AgentSummary[];
+  agentsLoaded: boolean;
+  selectedAgentId: string | null;
+  models: ModelSummary[];
+  selectedModel: string | null;
   pendingStart: boolean;
+  // All run slots are busy and this start is waiting in the queue
+  isQueued: boolean;
+  // Profile of the working directory, already applied to the fields below
+  profile?: WorkspaceProfile;
+  onEditProfile: () => void;
+  onOpenTemplates: () => void;
   onCwdChange: (value: string) => void;
   onPromptChange: (value: string) => void;
+  onPermissionModeChange: (value: ApprovalMode) => void;
+  onDisabledToolsChange: (value: string[]) => void;
+  onSelectAgent: (agentId: string | null) => void;
+  onSelectModel: (model: string | null) => void;
+  onCreateAgent: (name: string, persona: string) => void;
+  onCloneAgent: (agentId: string, name: string) => void;
   onStart: () => void;
   onClose: () => void;
 }
@@ -13,18 +41,70 @@ interface StartSessionModalProps {
 export function StartSessionModal({
   cwd,
   prompt,
+  permissionMode,
+  disabledTools,
+  agents,
+  agentsLoaded,
+  selectedAgentId,
+  models,
+  selectedModel,
   pendingStart,
+  isQueued,
+  profile,
+  onEditProfile,
+  onOpenTemplates,
   onCwdChange,
   onPromptChange,
+  onPermissionModeChange,
+  onDisabledToolsChange,
+  onSelectAgent,
+  onSelectModel,
+  onCreateAgent,
+  onCloneAgent,
   onStart,
   onClose
 }: StartSessionModalProps) {
-  const [recentCwds, setRecentCwds] = useState<string[]>([]);
+  const [recentCwds, setRecentCwds] = useState<RecentCwd[]>([]);
+  const { attachments, removeAttachment, handlePaste, dropHandlers, dragging } = useAttachments();
 
   useEffect(() => {
-    window.electron.getRecentCwds().then(setRecentCwds).catch(console.error);
+    window.electron.getRecentCwds(RECENT_CWD_LIMIT).then(setRecentCwds).catch(console.error);
   }, []);
 
+  // Typing in the directory field narrows the list; a picked entry shows them all
+  const cwdQuery = recentCwds.some((entry) => entry.path === cwd) ? "" : cwd.trim();
+  const visibleCwds = useMemo(
+    () => fuzzyFilter(recentCwds, cwdQuery, (entry) => entry.path),
+    [recentCwds, cwdQuery]
+  );
+
+  const handleRemoveRecentCwd = async (path: string) => {
+    try {
+      await window.electron.removeRecentCwd(path);
+      setRecentCwds((current) => current.filter((entry) => entry.path !== path));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const renderCwdLabel = (path: string) => {
+    const positions = new Set(fuzzyMatch(cwdQuery, path)?.positions);
+    if (positions.size === 0) return path;
+    return Array.from(path).map((char, index) => (
+      positions.has(index) ? <span key={index} className="font-semibold text-ink-800">{char}</span> : char
+    ));
+  };
+
+  const agentModel = agents.find((agent) => agent.id === selectedAgentId)?.model;
+
+  const toggleTool = (name: string) => {
+    onDisabledToolsChange(
+      disabledTools.includes(name) ? disabledTools.filter((tool) => tool !== name) : [...disabledTools, name]
+    );
+  };
+
+  const isReadOnlySelection = AVAILABLE_TOOLS.every((tool) => disabledTools.includes(tool.name) !== tool.readOnly);
+
   const handleSelectDirectory = async () => {
     const result = await window.electron.selectDirectory();
     if (result) onCwdChange(result);
@@ -32,7 +112,7 @@ export function StartSessionModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink-900/20 px-4 py-8 backdrop-blur-sm">
-      <div className="w-full max-w-lg rounded-2xl border border-ink-900/5 bg-surface p-6 shadow-elevated">
+      <div className="max-h-full w-full max-w-lg overflow-y-auto rounded-2xl border border-ink-900/5 bg-surface p-6 shadow-elevated">
         <div className="flex items-center justify-between">
           <div className="text-base font-semibold text-ink-800">Start Session</div>
           <button className="rounded-full p-1.5 text-muted hover:bg-surface-tertiary hover:text-ink-700 transition-colors" onClick={onClose} aria-label="Close">
@@ -61,39 +141,142 @@ export function StartSessionModal({
                 Browse...
               </button>
             </div>
+            {cwd.trim() && (
+              <div className="flex items-center gap-2 text-[11px] text-muted">
+                {profile ? (
+                  <span className="truncate" title={profile.cwd}>Profile for {profile.cwd} applied</span>
+                ) : (
+                  <span>No workspace profile</span>
+                )}
+                <button type="button" className="shrink-0 text-accent hover:underline" onClick={onEditProfile}>
+                  {profile ? "Edit profile" : "Create profile"}
+                </button>
+              </div>
+            )}
             {recentCwds.length > 0 && (
               <div className="mt-2 grid gap-2 w-full">
                 <div className="text-[11px] font-medium uppercase tracking-wide text-muted-light">Recent</div>
                 <div className="flex flex-wrap gap-2 w-full min-w-0">
-                  {recentCwds.map((path) => (
-                    <button
+                  {visibleCwds.map(({ path, useCount }) => (
+                    <div
                       key={path}
-                      type="button"
-                      className={`truncate rounded-full border px-3 py-1.5 text-xs transition-colors whitespace-nowrap ${cwd === path ? "border-accent/60 bg-accent/10 text-ink-800" : "border-ink-900/10 bg-surface text-muted hover:border-ink-900/20 hover:text-ink-700"}`}
-                      onClick={() => onCwdChange(path)}
-                      title={path}
+                      className={`flex min-w-0 max-w-full items-center rounded-full border text-xs transition-colors ${cwd === path ? "border-accent/60 bg-accent/10 text-ink-800" : "border-ink-900/10 bg-surface text-muted hover:border-ink-900/20 hover:text-ink-700"}`}
                     >
-                      {path}
-                    </button>
+                      <button
+                        type="button"
+                        className="truncate whitespace-nowrap py-1.5 pl-3 pr-1"
+                        onClick={() => onCwdChange(path)}
+                        title={`${path} · used ${useCount} ${useCount === 1 ? "time" : "times"}`}
+                      >
+                        {renderCwdLabel(path)}
+                      </button>
+                      <button
+                        type="button"
+                        className="mr-1 shrink-0 rounded-full p-1 text-muted-light hover:bg-ink-900/10 hover:text-ink-700"
+                        onClick={() => handleRemoveRecentCwd(path)}
+                        aria-label={`Remove ${path} from recent directories`}
+                      >
+                        <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+                      </button>
+                    </div>
                   ))}
+                  {visibleCwds.length === 0 && <span className="text-xs text-muted">No recent directory matches</span>}
                 </div>
               </div>
             )}
           </label>
+          <AgentPicker
+            agents={agents}
+            agentsLoaded={agentsLoaded}
+            selectedAgentId={selectedAgentId}
+            onSelect={onSelectAgent}
+            onCreate={onCreateAgent}
+            onClone={onCloneAgent}
+          />
           <label className="grid gap-1.5">
-            <span className="text-xs font-medium text-muted">Prompt</span>
+            <span className="text-xs font-medium text-muted">Model</span>
+            <ModelSelect
+              className="rounded-xl border border-ink-900/10 bg-surface-secondary px-3 py-2.5 text-sm text-ink-800 focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors"
+              models={models}
+              value={selectedModel}
+              defaultLabel={agentModel ? `Agent's model (${agentModel})` : "Agent's model"}
+              onChange={onSelectModel}
+            />
+          </label>
+          <div className="grid gap-1.5">
+            <span className="text-xs font-medium text-muted">Tool Approval</span>
+            <div className="grid grid-cols-3 gap-2">
+              {APPROVAL_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  type="button"
+                  className={`rounded-xl border px-3 py-2 text-left transition-colors ${permissionMode === mode.value ? "border-accent/60 bg-accent/10" : "border-ink-900/10 bg-surface hover:border-ink-900/20"}`}
+                  onClick={() => onPermissionModeChange(mode.value)}
+                  title={mode.description}
+                >
+                  <div className="text-xs font-medium text-ink-800">{mode.label}</div>
+                  <div className="mt-0.5 text-[11px] text-muted">{mode.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid gap-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted">Tools</span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className={`rounded-full border px-2.5 py-0.5 text-[11px] transition-colors ${disabledTools.length === 0 ? "border-accent/60 bg-accent/10 text-ink-800" : "border-ink-900/10 text-muted hover:text-ink-700"}`}
+                  onClick={() => onDisabledToolsChange([])}
+                >
+                  All tools
+                </button>
+                <button
+                  type="button"
+                  className={`rounded-full border px-2.5 py-0.5 text-[11px] transition-colors ${isReadOnlySelection ? "border-accent/60 bg-accent/10 text-ink-800" : "border-ink-900/10 text-muted hover:text-ink-700"}`}
+                  onClick={() => onDisabledToolsChange(AVAILABLE_TOOLS.map((tool) => tool.name).filter((name) => !READ_ONLY_TOOL_NAMES.includes(name)))}
+                >
+                  Investigate only
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-x-3 gap-y-1.5 rounded-xl border border-ink-900/10 bg-surface-secondary px-3 py-2.5">
+              {AVAILABLE_TOOLS.map((tool) => (
+                <label key={tool.name} className="flex cursor-pointer items-center gap-2 text-xs text-ink-700" title={tool.description}>
+                  <input
+                    type="checkbox"
+                    className="accent-accent"
+                    checked={!disabledTools.includes(tool.name)}
+                    onChange={() => toggleTool(tool.name)}
+                  />
+                  {tool.name}
+                </label>
+              ))}
+            </div>
+            <p className="text-[11px] text-muted-light">Reading and searching files, and read-only shell commands, are always allowed.</p>
+          </div>
+          <div className="grid gap-1.5" {...dropHandlers}>
+            <div className="flex items-center justify-between">
+              <label htmlFor="start-session-prompt" className="text-xs font-medium text-muted">Prompt</label>
+              <button type="button" className="text-xs text-accent hover:text-accent-hover" onClick={onOpenTemplates}>
+                Use a template
+              </button>
+            </div>
             <textarea
+              id="start-session-prompt"
               rows={4}
-              className="rounded-xl border border-ink-900/10 bg-surface-secondary p-3 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors resize-none"
-              placeholder="Describe the task you want agent to handle..."
+              className={`rounded-xl border bg-surface-secondary p-3 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors resize-none ${dragging ? "border-accent" : "border-ink-900/10"}`}
+              placeholder="Describe the task you want agent to handle, or drop files here..."
               value={prompt}
               onChange={(e) => onPromptChange(e.target.value)}
+              onPaste={handlePaste}
             />
-          </label>
+            <AttachmentChips attachments={attachments} onRemove={removeAttachment} />
+          </div>
           <button
             className="flex flex-col items-center rounded-full bg-accent px-5 py-3 text-sm font-medium text-white shadow-soft hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
             onClick={onStart}
-            disabled={pendingStart || !cwd.trim() || !prompt.trim()}
+            disabled={pendingStart || !cwd.trim() || (!prompt.trim() && attachments.length === 0)}
           >
             {pendingStart ? (
               <svg aria-hidden="true" className="w-5 h-5 animate-spin" viewBox="0 0 100 101" fill="none">
@@ -102,6 +285,9 @@ export function StartSessionModal({
               </svg>
             ) : "Start Session"}
           </button>
+          {pendingStart && isQueued && (
+            <p className="text-center text-xs text-warning">All run slots are busy. This task starts as soon as one frees up.</p>
+          )}
         </div>
       </div>
     </div>
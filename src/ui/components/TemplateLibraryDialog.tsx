@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { fuzzyFilter } from "../fuzzy";
+import { fillTemplate, templateVariables, variableLabel } from "../templates";
+
+interface TemplateLibraryDialogProps {
+  // Working directory whose .letta/templates are listed next to the library
+  cwd?: string;
+  initialQuery?: string;
+  onApply: (text: string) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+type View =
+  | { kind: "list" }
+  | { kind: "fill"; template: PromptTemplate }
+  // No template means a new one
+  | { kind: "edit"; template?: PromptTemplate };
+
+const inputClassName = "rounded-xl border border-ink-900/10 bg-surface-secondary px-3 py-2 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors";
+const secondaryButtonClassName = "rounded-full border border-ink-900/10 px-3 py-1.5 text-xs text-ink-700 hover:bg-surface-tertiary transition-colors disabled:cursor-not-allowed disabled:opacity-50";
+const primaryButtonClassName = "rounded-full bg-accent px-4 py-1.5 text-xs font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50";
+
+const SOURCE_LABELS: Record<PromptTemplate["source"], string> = {
+  workspace: "Workspace",
+  library: "Library",
+};
+
+function TemplateForm({ template, onApply, onBack }: { template: PromptTemplate; onApply: (text: string) => void; onBack: () => void }) {
+  const variables = useMemo(() => templateVariables(template.body), [template.body]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const filled = fillTemplate(template.body, values);
+
+  return (
+    <form
+      className="mt-4 grid gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply(filled);
+      }}
+    >
+      {template.description && <p className="text-xs text-muted">{template.description}</p>}
+      {variables.map((name, index) => (
+        <label key={name} className="grid gap-1.5">
+          <span className="text-xs font-medium text-muted">{variableLabel(name)}</span>
+          <input
+            className={inputClassName}
+            value={values[name] ?? ""}
+            onChange={(e) => setValues((current) => ({ ...current, [name]: e.target.value }))}
+            autoFocus={index === 0}
+          />
+        </label>
+      ))}
+      <div className="grid gap-1.5">
+        <span className="text-xs font-medium text-muted">Preview</span>
+        <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-xl border border-ink-900/10 bg-surface-secondary p-3 text-xs text-ink-700">{filled}</pre>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" className={secondaryButtonClassName} onClick={onBack}>Back</button>
+        <button type="submit" className={primaryButtonClassName}>Use template</button>
+      </div>
+    </form>
+  );
+}
+
+function TemplateEditor({ template, cwd, onSave, onBack }: {
+  template?: PromptTemplate;
+  cwd?: string;
+  onSave: (template: PromptTemplateInput) => Promise<void>;
+  onBack: () => void;
+}) {
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [body, setBody] = useState(template?.body ?? "");
+  const [source, setSource] = useState<PromptTemplate["source"]>(template?.source ?? "library");
+  const [saving, setSaving] = useState(false);
+  const variables = templateVariables(body);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ path: template?.path, name, description, body, source });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 grid gap-4">
+      <div className="grid grid-cols-[1fr_auto] gap-3">
+        <label className="grid gap-1.5">
+          <span className="text-xs font-medium text-muted">Name</span>
+          <input className={inputClassName} value={name} onChange={(e) => setName(e.target.value)} placeholder="Triage a failing CI job" autoFocus />
+        </label>
+        <label className="grid gap-1.5">
+          <span className="text-xs font-medium text-muted">Saved in</span>
+          {/* Moving a template would leave the old file behind */}
+          <select className={inputClassName} value={source} onChange={(e) => setSource(e.target.value as PromptTemplate["source"])} disabled={!!template}>
+            <option value="library">Library</option>
+            <option value="workspace" disabled={!cwd}>Workspace (.letta/templates)</option>
+          </select>
+        </label>
+      </div>
+      <label className="grid gap-1.5">
+        <span className="text-xs font-medium text-muted">Description</span>
+        <input className={inputClassName} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+      </label>
+      <label className="grid gap-1.5">
+        <span className="text-xs font-medium text-muted">Prompt</span>
+        <textarea
+          rows={8}
+          className={`${inputClassName} resize-y font-mono text-xs`}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={"Find out why {{job_url}} fails and propose a fix."}
+        />
+        <span className="text-[11px] text-muted-light">
+          {variables.length > 0 ? `Asks for: ${variables.map(variableLabel).join(", ")}` : "Use {{name}} for parts to fill in each time."}
+        </span>
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" className={secondaryButtonClassName} onClick={onBack} disabled={saving}>Cancel</button>
+        <button type="button" className={primaryButtonClassName} onClick={handleSave} disabled={saving || !name.trim() || !body.trim()}>
+          Save template
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function TemplateLibraryDialog({ cwd, initialQuery = "", onApply, onError, onClose }: TemplateLibraryDialogProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[] | null>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [view, setView] = useState<View>({ kind: "list" });
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    return window.electron.listTemplates(cwd).then(setTemplates).catch((error) => onError(`Could not load templates: ${String(error)}`));
+  }, [cwd, onError]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const visible = useMemo(
+    () => fuzzyFilter(templates ?? [], query, (template) => `${template.name} ${template.description ?? ""}`),
+    [query, templates],
+  );
+
+  const apply = (text: string) => {
+    onApply(text);
+    onClose();
+  };
+
+  const choose = (template: PromptTemplate) => {
+    if (templateVariables(template.body).length === 0) apply(template.body);
+    else setView({ kind: "fill", template });
+  };
+
+  const handleSave = async (template: PromptTemplateInput) => {
+    try {
+      await window.electron.saveTemplate(template, cwd);
+      await reload();
+      setView({ kind: "list" });
+    } catch (error) {
+      onError(`Could not save template: ${String(error)}`);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (confirmDelete !== template.path) {
+      setConfirmDelete(template.path);
+      return;
+    }
+    setConfirmDelete(null);
+    try {
+      await window.electron.deleteTemplate(template.path, cwd);
+      await reload();
+    } catch (error) {
+      onError(`Could not delete template: ${String(error)}`);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await window.electron.importTemplates();
+      if (imported.length > 0) await reload();
+    } catch (error) {
+      onError(`Import failed: ${String(error)}`);
+    }
+  };
+
+  // Exports what the search shows, so a team can share a subset
+  const handleExport = async () => {
+    try {
+      await window.electron.exportTemplates(visible.map((template) => template.path), cwd);
+    } catch (error) {
+      onError(`Export failed: ${String(error)}`);
+    }
+  };
+
+  const title = view.kind === "fill" ? view.template.name : view.kind === "edit" ? (view.template ? "Edit template" : "New template") : "Prompt templates";
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-ink-900/40 backdrop-blur-sm" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[90vh] w-full max-w-lg -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-2xl bg-surface p-6 shadow-xl">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-ink-800">{title}</Dialog.Title>
+              <Dialog.Description className="mt-1 text-xs text-muted">
+                {view.kind === "list" ? "Reusable task briefs. Placeholders like {{name}} are asked for when you use one." : "Fill in the blanks; the result goes into the prompt."}
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <button className="rounded-full p-1 text-ink-500 hover:bg-ink-900/10" aria-label="Close dialog">
+                <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M6 6l12 12M18 6l-12 12" />
+                </svg>
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {view.kind === "fill" && <TemplateForm template={view.template} onApply={apply} onBack={() => setView({ kind: "list" })} />}
+          {view.kind === "edit" && <TemplateEditor template={view.template} cwd={cwd} onSave={handleSave} onBack={() => setView({ kind: "list" })} />}
+          {view.kind === "list" && (
+            <div className="mt-4 grid gap-3">
+              <input
+                className={inputClassName}
+                placeholder="Search templates..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && visible[0]) choose(visible[0]);
+                }}
+                autoFocus
+              />
+              <div className="grid max-h-80 gap-1.5 overflow-y-auto">
+                {templates === null ? (
+                  <span className="px-1 text-xs text-muted">Loading…</span>
+                ) : visible.length === 0 ? (
+                  <span className="px-1 text-xs text-muted">{templates.length === 0 ? "No templates yet. Create one or import a shared set." : "No templates match."}</span>
+                ) : visible.map((template) => (
+                  <div key={template.path} className="group flex items-center gap-2 rounded-xl border border-ink-900/10 px-3 py-2 hover:border-ink-900/20 hover:bg-surface-tertiary">
+                    <button className="grid min-w-0 flex-1 text-left" onClick={() => choose(template)} title={template.path}>
+                      <span className="flex items-center gap-2">
+                        <span className="truncate text-sm font-medium text-ink-800">{template.name}</span>
+                        <span className="shrink-0 rounded-full bg-ink-900/5 px-1.5 py-0.5 text-[10px] text-muted">{SOURCE_LABELS[template.source]}</span>
+                      </span>
+                      {template.description && <span className="truncate text-xs text-muted">{template.description}</span>}
+                    </button>
+                    <button className="shrink-0 rounded-md px-1.5 py-0.5 text-[11px] text-muted hover:bg-ink-900/10 hover:text-ink-700" onClick={() => setView({ kind: "edit", template })}>
+                      Edit
+                    </button>
+                    <button
+                      className={`shrink-0 rounded-md px-1.5 py-0.5 text-[11px] hover:bg-error-light ${confirmDelete === template.path ? "text-error" : "text-muted hover:text-error"}`}
+                      onClick={() => handleDelete(template)}
+                      onBlur={() => setConfirmDelete(null)}
+                    >
+                      {confirmDelete === template.path ? "Really delete?" : "Delete"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <button className={secondaryButtonClassName} onClick={handleImport}>Import…</button>
+                <button className={secondaryButtonClassName} onClick={handleExport} disabled={visible.length === 0}>
+                  Export {query.trim() ? "matches" : "all"}…
+                </button>
+                <button className={`ml-auto ${primaryButtonClassName}`} onClick={() => setView({ kind: "edit" })}>New template</button>
+              </div>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
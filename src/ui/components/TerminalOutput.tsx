@@ -0,0 +1,78 @@
+import { useMemo, useRef, useState, type CSSProperties } from "react";
+import { parseAnsi, stripAnsi, type AnsiStyle } from "../render/ansi";
+
+const PREVIEW_LINES = 3;
+
+interface TerminalOutputProps {
+  output: string;
+  command?: string;
+  // null when the command ended without one (timeout, signal)
+  exitCode: number | null;
+  defaultExpanded?: boolean;
+}
+
+function toCss(style: AnsiStyle): CSSProperties {
+  return {
+    color: style.color,
+    backgroundColor: style.background,
+    fontWeight: style.bold ? 600 : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    fontStyle: style.italic ? "italic" : undefined,
+    textDecoration: style.underline ? "underline" : undefined,
+  };
+}
+
+/**
+ * Bash output as a terminal would show it: ANSI colors, exact whitespace,
+ * the command that produced it and its exit status.
+ */
+export function TerminalOutput({ output, command, exitCode, defaultExpanded = false }: TerminalOutputProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const [copied, setCopied] = useState(false);
+  const copiedTimerRef = useRef<number | null>(null);
+
+  const lines = output.split("\n");
+  const hasMoreLines = lines.length > PREVIEW_LINES;
+  const visibleOutput = hasMoreLines && !isExpanded ? lines.slice(0, PREVIEW_LINES).join("\n") : output;
+  const spans = useMemo(() => parseAnsi(visibleOutput), [visibleOutput]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(stripAnsi(output));
+    } catch {
+      return;
+    }
+    setCopied(true);
+    if (copiedTimerRef.current) window.clearTimeout(copiedTimerRef.current);
+    copiedTimerRef.current = window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  const exitLabel = exitCode === null ? "failed" : `exit ${exitCode}`;
+
+  return (
+    <div className="mt-2 overflow-hidden rounded-xl bg-ink-900 text-[#e5e5e5]">
+      <div className="flex items-center gap-2 border-b border-white/10 px-3 py-1.5 text-xs">
+        <span className="min-w-0 flex-1 truncate font-mono text-white/70" title={command}>
+          {command ? `$ ${command}` : "Terminal output"}
+        </span>
+        <span className={`shrink-0 rounded-full px-2 py-0.5 font-medium ${exitCode === 0 ? "bg-success/20 text-[#4ade80]" : "bg-error/30 text-[#f87171]"}`}>
+          {exitLabel}
+        </span>
+        <button className="shrink-0 rounded px-1.5 py-0.5 text-white/60 hover:bg-white/10 hover:text-white transition-colors" onClick={handleCopy}>
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre className={`px-3 py-2 font-mono text-xs leading-5 whitespace-pre ${isExpanded ? "max-h-96 overflow-auto" : "overflow-x-auto"}`}>
+        {spans.map((span, index) => (
+          <span key={index} style={toCss(span.style)}>{span.text}</span>
+        ))}
+      </pre>
+      {hasMoreLines && !defaultExpanded && (
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex w-full items-center gap-1 border-t border-white/10 px-3 py-1.5 text-xs text-white/60 hover:text-white transition-colors">
+          <span>{isExpanded ? "▲" : "▼"}</span>
+          <span>{isExpanded ? "Collapse" : `Show ${lines.length - PREVIEW_LINES} more lines`}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import type { AgentSummary, ModelSummary, PriceTable, UsageGroup, UsageReport, UsageTotals } from "../types";
+import { formatCost, formatDuration, formatTokens } from "../usage";
+
+interface UsageDashboardProps {
+  // null until the main process has answered
+  report: UsageReport | null;
+  agents: AgentSummary[];
+  models: ModelSummary[];
+  onSavePrices: (prices: PriceTable) => void;
+  onClose: () => void;
+}
+
+type Period = "today" | "week";
+
+type PriceRow = { model: string; input: string; output: string };
+
+const inputClassName = "rounded-lg border border-ink-900/10 bg-surface-secondary px-2 py-1 text-xs text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors";
+
+function totalTokens(usage: UsageTotals): number {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-xl border border-ink-900/5 bg-surface-secondary px-3 py-2">
+      <div className="text-[11px] text-muted">{label}</div>
+      <div className="text-base font-semibold text-ink-800">{value}</div>
+      {hint && <div className="text-[11px] text-muted-light">{hint}</div>}
+    </div>
+  );
+}
+
+function GroupTable({ title, groups, labelOf }: { title: string; groups: UsageGroup[]; labelOf: (key: string) => string }) {
+  return (
+    <div className="grid gap-1.5">
+      <span className="text-xs font-medium text-muted">{title}</span>
+      {groups.length === 0 ? (
+        <div className="rounded-xl border border-ink-900/5 px-3 py-2 text-xs text-muted-light">No runs</div>
+      ) : (
+        <div className="divide-y divide-ink-900/5 rounded-xl border border-ink-900/5">
+          {groups.map((group) => (
+            <div key={group.key} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+              <span className="min-w-0 flex-1 truncate text-ink-700" title={group.key || undefined}>{labelOf(group.key)}</span>
+              <span className="text-muted">{group.runs} run{group.runs === 1 ? "" : "s"}</span>
+              <span className="w-14 text-right text-muted">{formatTokens(totalTokens(group))}</span>
+              <span className="w-16 text-right font-medium text-ink-800">{formatCost(group)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DailyChart({ days }: { days: UsageReport["days"] }) {
+  const max = Math.max(1, ...days.map(totalTokens));
+  return (
+    <div className="flex h-24 items-end gap-2 rounded-xl border border-ink-900/5 bg-surface-secondary px-3 pb-2 pt-3">
+      {days.map((day) => {
+        const weekday = new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short" });
+        return (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+            title={`${day.date}: ${totalTokens(day).toLocaleString()} tokens, ${formatCost(day)}, ${day.runs} run(s)`}
+          >
+            <div className="w-full rounded-t-md bg-accent/70" style={{ height: `${(totalTokens(day) / max) * 100}%`, minHeight: day.runs > 0 ? 2 : 0 }} />
+            <span className="text-[10px] text-muted">{weekday}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function PriceTableEditor({ prices, models, onSave }: { prices: PriceTable; models: ModelSummary[]; onSave: (prices: PriceTable) => void }) {
+  const [rows, setRows] = useState<PriceRow[]>(() =>
+    Object.entries(prices).map(([model, price]) => ({ model, input: String(price.input), output: String(price.output) })));
+
+  const isValid = (value: string) => value.trim() !== "" && Number.isFinite(Number(value)) && Number(value) >= 0;
+  const filled = rows.filter((row) => row.model.trim());
+  const canSave = filled.every((row) => isValid(row.input) && isValid(row.output));
+
+  const updateRow = (index: number, updates: Partial<PriceRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(Object.fromEntries(filled.map((row) => [row.model.trim(), { input: Number(row.input), output: Number(row.output) }])));
+  };
+
+  return (
+    <div className="grid gap-1.5">
+      <span className="text-xs font-medium text-muted">Model prices (USD per million tokens)</span>
+      <datalist id="usage-price-models">
+        {models.map((model) => <option key={model.handle} value={model.handle}>{model.name}</option>)}
+      </datalist>
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            className={`${inputClassName} min-w-0 flex-1`}
+            placeholder="provider/model"
+            list="usage-price-models"
+            value={row.model}
+            onChange={(e) => updateRow(index, { model: e.target.value })}
+          />
+          <input
+            className={`${inputClassName} w-20`}
+            placeholder="Input"
+            inputMode="decimal"
+            value={row.input}
+            onChange={(e) => updateRow(index, { input: e.target.value })}
+            aria-label="Input price"
+          />
+          <input
+            className={`${inputClassName} w-20`}
+            placeholder="Output"
+            inputMode="decimal"
+            value={row.output}
+            onChange={(e) => updateRow(index, { output: e.target.value })}
+            aria-label="Output price"
+          />
+          <button
+            className="rounded-full p-1 text-muted hover:bg-ink-900/10 hover:text-ink-700"
+            onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+            aria-label="Remove price"
+          >
+            <svg viewBox="0 0 24 24" className="h-3 w-3" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <button
+          className="rounded-full px-3 py-1 text-xs text-accent hover:bg-accent/10 transition-colors"
+          onClick={() => setRows((current) => [...current, { model: "", input: "", output: "" }])}
+        >
+          + Add model
+        </button>
+        <button
+          className="rounded-full bg-accent px-3 py-1 text-xs font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+          onClick={handleSave}
+          disabled={!canSave}
+        >
+          Save prices
+        </button>
+      </div>
+      <span className="text-[11px] text-muted-light">
+        Costs are estimates. Runs on models without a price use the cost Letta Code reports, if any.
+      </span>
+    </div>
+  );
+}
+
+export function UsageDashboard({ report, agents, models, onSavePrices, onClose }: UsageDashboardProps) {
+  const [period, setPeriod] = useState<Period>("today");
+  const usage = report?.[period];
+
+  const agentLabel = (agentId: string) => (agentId ? agents.find((agent) => agent.id === agentId)?.name ?? agentId : "Unknown agent");
+  const cwdLabel = (cwd: string) => cwd || "No directory";
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-ink-900/40 backdrop-blur-sm" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[90vh] w-full max-w-2xl -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-2xl bg-surface p-6 shadow-xl">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-ink-800">Usage</Dialog.Title>
+              <Dialog.Description className="mt-1 text-xs text-muted">
+                Tokens, run time and estimated cost of runs started from this app.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <button className="rounded-full p-1 text-ink-500 hover:bg-ink-900/10" aria-label="Close dialog">
+                <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M6 6l12 12M18 6l-12 12" />
+                </svg>
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {!report || !usage ? (
+            <div className="py-10 text-center text-xs text-muted">Loading…</div>
+          ) : (
+            <div className="mt-4 grid gap-4">
+              <div className="flex items-center gap-1 text-xs">
+                {(["today", "week"] as const).map((value) => (
+                  <button
+                    key={value}
+                    className={`rounded-md px-2 py-0.5 transition-colors ${period === value ? "bg-ink-900/10 text-ink-800" : "text-muted hover:text-ink-700"}`}
+                    onClick={() => setPeriod(value)}
+                  >
+                    {value === "today" ? "Today" : "Last 7 days"}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <Stat
+                  label="Estimated cost"
+                  value={formatCost(usage.totals)}
+                  hint={usage.totals.unpricedRuns > 0 ? `${usage.totals.unpricedRuns} unpriced run(s)` : undefined}
+                />
+                <Stat label="Prompt tokens" value={formatTokens(usage.totals.promptTokens)} />
+                <Stat
+                  label="Completion tokens"
+                  value={formatTokens(usage.totals.completionTokens)}
+                  hint={usage.totals.reasoningTokens > 0 ? `${formatTokens(usage.totals.reasoningTokens)} reasoning` : undefined}
+                />
+                <Stat label="Run time" value={formatDuration(usage.totals.durationMs)} hint={`${usage.totals.runs} run${usage.totals.runs === 1 ? "" : "s"}`} />
+              </div>
+              <DailyChart days={report.days} />
+              <div className="grid grid-cols-2 gap-4">
+                <GroupTable title="By agent" groups={usage.byAgent} labelOf={agentLabel} />
+                <GroupTable title="By working directory" groups={usage.byCwd} labelOf={cwdLabel} />
+              </div>
+              <PriceTableEditor key={JSON.stringify(report.prices)} prices={report.prices} models={models} onSave={onSavePrices} />
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
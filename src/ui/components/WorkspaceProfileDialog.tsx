@@ -0,0 +1,186 @@
+import { useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import type { AgentSummary, ApprovalMode, WorkspaceProfile } from "../types";
+import { APPROVAL_MODES, AVAILABLE_TOOLS } from "../tools";
+
+interface WorkspaceProfileDialogProps {
+  cwd: string;
+  // The profile being edited; undefined creates one for cwd
+  profile?: WorkspaceProfile;
+  agents: AgentSummary[];
+  onSave: (profile: Omit<WorkspaceProfile, "updatedAt">) => void;
+  onDelete: (cwd: string) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "rounded-xl border border-ink-900/10 bg-surface-secondary px-3 py-2 text-sm text-ink-800 placeholder:text-muted-light focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent/20 transition-colors";
+
+function formatEnv(env: Record<string, string> | undefined): string {
+  return Object.entries(env ?? {}).map(([key, value]) => `${key}=${value}`).join("\n");
+}
+
+// KEY=VALUE per line; blank lines and # comments are skipped
+function parseEnv(text: string): { env: Record<string, string>; invalidLines: number[] } {
+  const env: Record<string, string> = {};
+  const invalidLines: number[] = [];
+  text.split("\n").forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const separator = trimmed.indexOf("=");
+    if (separator <= 0) {
+      invalidLines.push(index + 1);
+      return;
+    }
+    env[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+  });
+  return { env, invalidLines };
+}
+
+export function WorkspaceProfileDialog({ cwd, profile, agents, onSave, onDelete, onClose }: WorkspaceProfileDialogProps) {
+  const [directory, setDirectory] = useState(profile?.cwd ?? cwd);
+  const [agentId, setAgentId] = useState(profile?.agentId ?? "");
+  const [permissionMode, setPermissionMode] = useState<ApprovalMode | "">(profile?.permissionMode ?? "");
+  const [disabledTools, setDisabledTools] = useState<string[]>(profile?.disabledTools ?? []);
+  const [instructions, setInstructions] = useState(profile?.instructions ?? "");
+  const [envText, setEnvText] = useState(formatEnv(profile?.env));
+
+  const { env, invalidLines } = parseEnv(envText);
+  const canSave = directory.trim() !== "" && invalidLines.length === 0;
+
+  const toggleTool = (name: string) => {
+    setDisabledTools((current) => current.includes(name) ? current.filter((tool) => tool !== name) : [...current, name]);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      cwd: directory.trim(),
+      agentId: agentId || undefined,
+      permissionMode: permissionMode || undefined,
+      disabledTools,
+      instructions,
+      env,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-ink-900/40 backdrop-blur-sm" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[90vh] w-full max-w-lg -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-2xl bg-surface p-6 shadow-xl">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-ink-800">Workspace profile</Dialog.Title>
+              <Dialog.Description className="mt-1 text-xs text-muted">
+                Defaults for sessions started in this directory or any directory below it.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <button className="rounded-full p-1 text-ink-500 hover:bg-ink-900/10" aria-label="Close dialog">
+                <svg viewBox="0 0 24 24" className="h-4 w-4" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M6 6l12 12M18 6l-12 12" />
+                </svg>
+              </button>
+            </Dialog.Close>
+          </div>
+          <div className="mt-4 grid gap-4">
+            <label className="grid gap-1.5">
+              <span className="text-xs font-medium text-muted">Directory</span>
+              <input
+                className={`${inputClassName} disabled:opacity-70`}
+                value={directory}
+                onChange={(e) => setDirectory(e.target.value)}
+                // Moving a profile would leave the old one behind
+                disabled={!!profile}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1.5">
+                <span className="text-xs font-medium text-muted">Agent</span>
+                <select className={inputClassName} value={agentId} onChange={(e) => setAgentId(e.target.value)}>
+                  <option value="">No preference</option>
+                  {agentId && !agents.some((agent) => agent.id === agentId) && <option value={agentId}>{agentId}</option>}
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>{agent.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="grid gap-1.5">
+                <span className="text-xs font-medium text-muted">Tool Approval</span>
+                <select className={inputClassName} value={permissionMode} onChange={(e) => setPermissionMode(e.target.value as ApprovalMode | "")}>
+                  <option value="">No preference</option>
+                  {APPROVAL_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid gap-1.5">
+              <span className="text-xs font-medium text-muted">Tools</span>
+              <div className="grid grid-cols-3 gap-x-3 gap-y-1.5 rounded-xl border border-ink-900/10 bg-surface-secondary px-3 py-2.5">
+                {AVAILABLE_TOOLS.map((tool) => (
+                  <label key={tool.name} className="flex cursor-pointer items-center gap-2 text-xs text-ink-700" title={tool.description}>
+                    <input
+                      type="checkbox"
+                      className="accent-accent"
+                      checked={!disabledTools.includes(tool.name)}
+                      onChange={() => toggleTool(tool.name)}
+                    />
+                    {tool.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="grid gap-1.5">
+              <span className="text-xs font-medium text-muted">Instructions</span>
+              <textarea
+                rows={3}
+                className={`${inputClassName} resize-y`}
+                placeholder="Always run `npm test` before finishing"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+              />
+              <span className="text-[11px] text-muted-light">Sent to the agent with the first prompt of each new session.</span>
+            </label>
+            <label className="grid gap-1.5">
+              <span className="text-xs font-medium text-muted">Environment variables</span>
+              <textarea
+                rows={3}
+                className={`${inputClassName} resize-y font-mono text-xs`}
+                placeholder={"NODE_ENV=development\nDATABASE_URL=postgres://localhost/dev"}
+                value={envText}
+                onChange={(e) => setEnvText(e.target.value)}
+                spellCheck={false}
+              />
+              {invalidLines.length > 0 ? (
+                <span className="text-[11px] text-error">Line {invalidLines.join(", ")}: expected KEY=VALUE</span>
+              ) : (
+                <span className="text-[11px] text-muted-light">One KEY=VALUE per line, set for every run in this directory.</span>
+              )}
+            </label>
+            <div className="flex items-center justify-between gap-2">
+              {profile ? (
+                <button
+                  type="button"
+                  className="rounded-full px-3 py-1.5 text-xs text-error hover:bg-error-light transition-colors"
+                  onClick={() => { onDelete(profile.cwd); onClose(); }}
+                >
+                  Delete profile
+                </button>
+              ) : <span />}
+              <button
+                type="button"
+                className="rounded-full bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-hover transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={handleSave}
+                disabled={!canSave}
+              >
+                Save profile
+              </button>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Fuzzy matching for pickers: every query character must appear in order.
+ */
+
+export type FuzzyMatch = {
+  score: number;
+  // Indexes of the matched characters in the text
+  positions: number[];
+};
+
+const WORD_SEPARATORS = "/\\-_. ";
+
+/**
+ * Case-insensitive subsequence match. Consecutive characters, characters that
+ * start a word or path segment, and matches within the last path segment score
+ * higher; gaps cost a little. Returns null when the text does not match.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  if (!needle) return { score: 0, positions: [] };
+  const haystack = text.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    if (positions.length > 0 && index === positions[positions.length - 1] + 1) score += 5;
+    if (index === 0 || WORD_SEPARATORS.includes(text[index - 1])) score += 3;
+    score -= (index - from) * 0.1;
+    positions.push(index);
+    from = index + 1;
+  }
+
+  const lastSegmentStart = Math.max(text.lastIndexOf("/"), text.lastIndexOf("\\")) + 1;
+  if (positions[0] >= lastSegmentStart) score += 5;
+  return { score, positions };
+}
+
+/**
+ * Items matching the query, best first; ties keep their original order.
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+  if (!query.trim()) return items;
+  const matches: Array<{ item: T; index: number; score: number }> = [];
+  items.forEach((item, index) => {
+    const match = fuzzyMatch(query, getText(item));
+    if (match) matches.push({ item, index, score: match.score });
+  });
+  matches.sort((a, b) => b.score - a.score || a.index - b.index);
+  return matches.map((match) => match.item);
+}
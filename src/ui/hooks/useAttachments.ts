@@ -0,0 +1,53 @@
+import { useCallback, useState } from "react";
+import { useAppStore } from "../store/useAppStore";
+import { readAttachment } from "../attachments";
+
+/**
+ * The next prompt's attachments, with drop and paste handlers for a composer.
+ */
+export function useAttachments() {
+  const attachments = useAppStore((state) => state.attachments);
+  const setAttachments = useAppStore((state) => state.setAttachments);
+  const setGlobalError = useAppStore((state) => state.setGlobalError);
+  const [dragging, setDragging] = useState(false);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readAttachment));
+    const added = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failure = results.find((result) => result.status === "rejected");
+    if (failure) setGlobalError(`Could not attach file: ${failure.reason instanceof Error ? failure.reason.message : String(failure.reason)}`);
+    // Read the latest list; other files may have been added while these were read
+    if (added.length > 0) setAttachments([...useAppStore.getState().attachments, ...added]);
+  }, [setAttachments, setGlobalError]);
+
+  const removeAttachment = useCallback((id: string) => {
+    setAttachments(useAppStore.getState().attachments.filter((attachment) => attachment.id !== id));
+  }, [setAttachments]);
+
+  // Pasted files are attached; pasted text is left to the textarea
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  }, [addFiles]);
+
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      setDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      setDragging(false);
+      addFiles(Array.from(e.dataTransfer.files));
+    },
+  };
+
+  return { attachments, removeAttachment, handlePaste, dropHandlers, dragging };
+}
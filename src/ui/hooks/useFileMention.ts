@@ -0,0 +1,105 @@
+import { useCallback, useMemo, useState, type RefObject } from "react";
+import { useAppStore } from "../store/useAppStore";
+import { fuzzyFilter } from "../fuzzy";
+import { workspaceAttachment } from "../attachments";
+
+// An `@` at the start of the text or after whitespace, up to the caret
+const MENTION_PATTERN = /(?:^|\s)@([^\s@"]*)$/;
+const MAX_SUGGESTIONS = 8;
+
+type Mention = {
+  // Index of the `@`
+  start: number;
+  query: string;
+};
+
+/**
+ * `@` file mentions for a prompt textarea: suggestions from the working directory,
+ * keyboard navigation, and inserting the picked path, optionally attaching the file.
+ */
+export function useFileMention(
+  cwd: string | undefined,
+  prompt: string,
+  setPrompt: (prompt: string) => void,
+  textareaRef: RefObject<HTMLTextAreaElement | null>,
+) {
+  const setAttachments = useAppStore((state) => state.setAttachments);
+  const [mention, setMention] = useState<Mention | null>(null);
+  const [files, setFiles] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const suggestions = useMemo(
+    () => (mention ? fuzzyFilter(files, mention.query, (file) => file).slice(0, MAX_SUGGESTIONS) : []),
+    [files, mention],
+  );
+
+  // Call whenever the text or caret moves
+  const updateMention = useCallback((text: string, caret: number) => {
+    const match = cwd ? MENTION_PATTERN.exec(text.slice(0, caret)) : null;
+    if (!cwd || !match) {
+      setMention(null);
+      return;
+    }
+    const query = match[1];
+    const start = caret - query.length - 1;
+    if (mention?.start === start && mention.query === query) return;
+    // The directory can change between mentions, so each new one refreshes the list
+    if (!mention) window.electron.listWorkspaceFiles(cwd).then(setFiles).catch(console.error);
+    setMention({ start, query });
+    setSelectedIndex(0);
+  }, [cwd, mention]);
+
+  const selectFile = useCallback((path: string, attach: boolean) => {
+    const textarea = textareaRef.current;
+    if (!mention || !cwd || !textarea) return;
+    const token = `${/\s/.test(path) ? `@"${path}"` : `@${path}`} `;
+    const end = mention.start + 1 + mention.query.length;
+    setPrompt(prompt.slice(0, mention.start) + token + prompt.slice(end));
+    setMention(null);
+    if (attach) {
+      const attachments = useAppStore.getState().attachments;
+      const attachment = workspaceAttachment(cwd, path);
+      if (!attachments.some((existing) => existing.path === attachment.path)) setAttachments([...attachments, attachment]);
+    }
+    // Put the caret after the inserted path once React has rendered the new text
+    const caret = mention.start + token.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  }, [cwd, mention, prompt, setAttachments, setPrompt, textareaRef]);
+
+  // True when the key drove the picker and the textarea should ignore it
+  const handleMentionKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!mention) return false;
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setMention(null);
+      return true;
+    }
+    if (suggestions.length === 0) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelectedIndex((index) => (index + step + suggestions.length) % suggestions.length);
+      return true;
+    }
+    if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      selectFile(suggestions[Math.min(selectedIndex, suggestions.length - 1)], e.altKey);
+      return true;
+    }
+    return false;
+  }, [mention, selectFile, selectedIndex, suggestions]);
+
+  return {
+    mentionQuery: mention?.query ?? null,
+    suggestions,
+    selectedIndex,
+    hasFiles: files.length > 0,
+    updateMention,
+    selectFile,
+    closeMention: () => setMention(null),
+    handleMentionKeyDown,
+  };
+}
@@ -10,6 +10,12 @@ export interface IndexedMessage {
     message: StreamMessage;
 }
 
+export interface RemoteHistory {
+    hasMore: boolean;
+    isLoading: boolean;
+    loadOlder: () => void;
+}
+
 export interface MessageWindowState {
     visibleMessages: IndexedMessage[];
     hasMoreHistory: boolean;
@@ -17,6 +23,7 @@ export interface MessageWindowState {
     isAtBeginning: boolean;
     loadMoreMessages: () => void;
     resetToLatest: () => void;
+    revealMessage: (originalIndex: number) => void;
     totalMessages: number;
     totalUserInputs: number;
     visibleUserInputs: number;
@@ -50,7 +57,8 @@ function calculateVisibleStartIndex(
 export function useMessageWindow(
     messages: StreamMessage[],
     permissionRequests: PermissionRequest[],
-    sessionId: string | null
+    sessionId: string | null,
+    remoteHistory?: RemoteHistory
 ): MessageWindowState {
     const [visibleUserInputCount, setVisibleUserInputCount] = useState(VISIBLE_WINDOW_SIZE);
     const [isLoadingHistory, setIsLoadingHistory] = useState(false);
@@ -85,10 +93,21 @@ export function useMessageWindow(
         return { visibleMessages: visible, visibleStartIndex: startIndex };
     }, [messages, visibleUserInputCount, permissionRequests.length]);
 
-    const hasMoreHistory = visibleStartIndex > 0;
+    const hasMoreLocal = visibleStartIndex > 0;
+    const hasMoreRemote = remoteHistory?.hasMore ?? false;
+    const isLoadingRemote = remoteHistory?.isLoading ?? false;
+    const hasMoreHistory = hasMoreLocal || hasMoreRemote;
 
     const loadMoreMessages = useCallback(() => {
-        if (!hasMoreHistory || isLoadingHistory) return;
+        if (!hasMoreHistory || isLoadingHistory || isLoadingRemote) return;
+
+        // Everything local is already visible - fetch the next older page from the server
+        // and widen the window so it shows up once it arrives
+        if (!hasMoreLocal) {
+            setVisibleUserInputCount(totalUserInputs + LOAD_BATCH_SIZE);
+            remoteHistory?.loadOlder();
+            return;
+        }
 
         setIsLoadingHistory(true);
 
@@ -99,12 +118,19 @@ export function useMessageWindow(
                 setIsLoadingHistory(false);
             }, 100);
         });
-    }, [hasMoreHistory, isLoadingHistory, totalUserInputs]);
+    }, [hasMoreHistory, hasMoreLocal, isLoadingHistory, isLoadingRemote, remoteHistory, totalUserInputs]);
 
     const resetToLatest = useCallback(() => {
         setVisibleUserInputCount(VISIBLE_WINDOW_SIZE);
     }, []);
 
+    // Widen the window until it starts at or before the given message
+    const revealMessage = useCallback((originalIndex: number) => {
+        const inputsBefore = userInputIndices.filter((index) => index <= originalIndex).length;
+        const needed = inputsBefore === 0 ? totalUserInputs : totalUserInputs - inputsBefore + 1;
+        setVisibleUserInputCount((prev) => Math.max(prev, needed));
+    }, [userInputIndices, totalUserInputs]);
+
     const visibleUserInputs = useMemo(() => {
         return visibleMessages.filter((item) => item.message.type === "user_prompt").length;
     }, [visibleMessages]);
@@ -112,10 +138,11 @@ export function useMessageWindow(
     return {
         visibleMessages,
         hasMoreHistory,
-        isLoadingHistory,
+        isLoadingHistory: isLoadingHistory || isLoadingRemote,
         isAtBeginning: !hasMoreHistory && messages.length > 0,
         loadMoreMessages,
         resetToLatest,
+        revealMessage,
         totalMessages: messages.length,
         totalUserInputs,
         visibleUserInputs,
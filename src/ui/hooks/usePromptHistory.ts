@@ -0,0 +1,64 @@
+import { useCallback, useState } from "react";
+import type { ClientEvent } from "../types";
+import { useAppStore } from "../store/useAppStore";
+
+/**
+ * Shell-like recall of sent prompts: Up and Down step through them from an empty
+ * composer, and Ctrl+R opens a search over them.
+ */
+export function usePromptHistory(prompt: string, setPrompt: (prompt: string) => void, sendEvent: (event: ClientEvent) => void) {
+  const history = useAppStore((state) => state.promptHistory);
+  // Index of the recalled prompt, -1 while not browsing
+  const [position, setPosition] = useState(-1);
+  const [searching, setSearching] = useState(false);
+
+  // Still browsing while the recalled prompt is left as it was
+  const browsing = position >= 0 && prompt === history[position];
+
+  const recall = useCallback((index: number) => {
+    setPosition(index);
+    setPrompt(index < 0 ? "" : history[index]);
+  }, [history, setPrompt]);
+
+  // True when the key recalled a prompt and the textarea should ignore it
+  const handleHistoryKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (e.key === "r" && e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      sendEvent({ type: "prompts.history" });
+      setSearching(true);
+      return true;
+    }
+    if (e.shiftKey || e.altKey || e.metaKey || e.ctrlKey) return false;
+    if (!browsing && prompt !== "") return false;
+
+    if (e.key === "ArrowUp") {
+      // Each new round of browsing picks up prompts sent from other windows and sessions
+      if (!browsing) sendEvent({ type: "prompts.history" });
+      const next = browsing ? position + 1 : 0;
+      if (next >= history.length) return false;
+      e.preventDefault();
+      recall(next);
+      return true;
+    }
+    if (e.key === "ArrowDown" && browsing) {
+      e.preventDefault();
+      recall(position - 1);
+      return true;
+    }
+    return false;
+  }, [browsing, history.length, position, prompt, recall, sendEvent]);
+
+  const pickFromSearch = useCallback((text: string) => {
+    setSearching(false);
+    setPosition(history.indexOf(text));
+    setPrompt(text);
+  }, [history, setPrompt]);
+
+  return {
+    history,
+    searching,
+    handleHistoryKeyDown,
+    pickFromSearch,
+    closeSearch: () => setSearching(false),
+  };
+}
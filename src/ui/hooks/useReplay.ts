@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo } from "react";
+import type { SDKResultMessage, StreamMessage } from "../types";
+import { useAppStore, type SessionView } from "../store/useAppStore";
+
+// Pace for messages whose run has no recorded duration
+const DEFAULT_STEP_MS = 600;
+const MIN_STEP_MS = 50;
+
+export const REPLAY_SPEEDS = [1, 2, 4, 10];
+
+/**
+ * Delay before each message appears. Transcripts carry no per-message
+ * timestamps, so each run's durationMs is spread evenly over its messages.
+ */
+export function computeReplayDelays(messages: StreamMessage[]): number[] {
+  const delays: number[] = messages.map((message) => (message.type === "stream_event" ? 0 : DEFAULT_STEP_MS));
+  let runStart = 0;
+  messages.forEach((message, index) => {
+    if (message.type === "user_prompt") {
+      runStart = index + 1;
+      return;
+    }
+    if (message.type !== "result") return;
+    const { durationMs } = message as SDKResultMessage;
+    const steps = messages.slice(runStart, index + 1).filter((m) => m.type !== "stream_event").length;
+    if (durationMs > 0 && steps > 0) {
+      const step = Math.max(MIN_STEP_MS, durationMs / steps);
+      for (let i = runStart; i <= index; i++) {
+        if (messages[i].type !== "stream_event") delays[i] = step;
+      }
+    }
+    runStart = index + 1;
+  });
+  return delays;
+}
+
+/**
+ * Drives replay of a read-only session: advances the shown message count on a timer.
+ */
+export function useReplay(session: SessionView | undefined) {
+  const setReplay = useAppStore((state) => state.setReplay);
+  const messages = session?.messages;
+  const replay = session?.replay;
+  const sessionId = session?.id;
+
+  const delays = useMemo(() => computeReplayDelays(messages ?? []), [messages]);
+
+  useEffect(() => {
+    if (!sessionId || !messages || !replay?.playing) return;
+    const next = replay.position + 1;
+    const timer = window.setTimeout(() => {
+      setReplay(sessionId, { ...replay, position: next, playing: next < messages.length });
+    }, delays[replay.position] / replay.speed);
+    return () => window.clearTimeout(timer);
+  }, [delays, messages, replay, sessionId, setReplay]);
+
+  const play = useCallback((speed: number) => {
+    if (!sessionId || !messages) return;
+    // Start over once the end was reached
+    const position = replay && replay.position < messages.length ? replay.position : 0;
+    setReplay(sessionId, { position, playing: true, speed });
+  }, [messages, replay, sessionId, setReplay]);
+
+  const pause = useCallback(() => {
+    if (sessionId && replay) setReplay(sessionId, { ...replay, playing: false });
+  }, [replay, sessionId, setReplay]);
+
+  const setSpeed = useCallback((speed: number) => {
+    if (sessionId && replay) setReplay(sessionId, { ...replay, speed });
+  }, [replay, sessionId, setReplay]);
+
+  // Leave replay and show the whole transcript
+  const exit = useCallback(() => {
+    if (sessionId) setReplay(sessionId, undefined);
+  }, [sessionId, setReplay]);
+
+  return { replay, total: messages?.length ?? 0, play, pause, setSpeed, exit };
+}
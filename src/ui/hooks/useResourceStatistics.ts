@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+
+function subscribeVisibility(callback: () => void) {
+  document.addEventListener("visibilitychange", callback);
+  return () => document.removeEventListener("visibilitychange", callback);
+}
+
+/**
+ * Live resource statistics while enabled and the window is visible; the main
+ * process stops polling as soon as nothing is subscribed.
+ */
+export function useResourceStatistics(enabled: boolean) {
+  const [statistics, setStatistics] = useState<Statistics | null>(null);
+  const [staticData, setStaticData] = useState<StaticData | null>(null);
+  const visible = useSyncExternalStore(subscribeVisibility, () => document.visibilityState === "visible");
+  const active = enabled && visible;
+
+  useEffect(() => {
+    if (!active) return;
+    window.electron.getStaticData().then(setStaticData).catch(() => undefined);
+    return window.electron.subscribeStatistics(setStatistics);
+  }, [active]);
+
+  const setMemoryWarning = useCallback(async (megabytes: number) => {
+    const memoryWarningMB = await window.electron.setMemoryWarning(megabytes);
+    setStaticData((current) => (current ? { ...current, memoryWarningMB } : current));
+  }, []);
+
+  return { statistics: active ? statistics : null, staticData, setMemoryWarning };
+}
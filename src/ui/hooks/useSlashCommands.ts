@@ -0,0 +1,132 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from "react";
+import type { ClientEvent } from "../types";
+import { useAppStore } from "../store/useAppStore";
+import { fuzzyFilter } from "../fuzzy";
+import { getCommand, listCommands, parseCommandLine, subscribeCommands, type SlashCommand } from "../commands";
+
+export type SlashMenuItem =
+  | { kind: "command"; command: SlashCommand }
+  | { kind: "argument"; command: SlashCommand; value: string };
+
+const MAX_ITEMS = 8;
+
+// Commands whose hint marks the argument as required are completed, not run, from the menu
+function needsArguments(command: SlashCommand): boolean {
+  return command.argumentHint?.startsWith("<") ?? false;
+}
+
+/**
+ * The `/` command menu for a prompt: matching commands, then argument values,
+ * with keyboard navigation and running the typed command.
+ */
+export function useSlashCommands(prompt: string, setPrompt: (prompt: string) => void, sendEvent: (event: ClientEvent) => void) {
+  const sessionId = useAppStore((state) => state.activeSessionId);
+  const setGlobalError = useAppStore((state) => state.setGlobalError);
+  const commands = useSyncExternalStore(subscribeCommands, listCommands);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const parsed = useMemo(() => parseCommandLine(prompt), [prompt]);
+  const isAvailable = useCallback((command: SlashCommand) => !command.requiresSession || !!sessionId, [sessionId]);
+  const typedCommand = parsed ? getCommand(parsed.name) : undefined;
+  const activeCommand = typedCommand && isAvailable(typedCommand) ? typedCommand : undefined;
+
+  const items = useMemo((): SlashMenuItem[] => {
+    if (!parsed || dismissed) return [];
+    if (!parsed.hasArgs) {
+      const available = commands.filter(isAvailable);
+      return fuzzyFilter(available, parsed.name, (command) => command.name)
+        .slice(0, MAX_ITEMS)
+        .map((command) => ({ kind: "command", command }));
+    }
+    if (!activeCommand) return [];
+    if (!activeCommand.argumentOptions) return [{ kind: "command", command: activeCommand }];
+    return fuzzyFilter(activeCommand.argumentOptions(), parsed.args, (value) => value)
+      .slice(0, MAX_ITEMS)
+      .map((value) => ({ kind: "argument", command: activeCommand, value }));
+  }, [activeCommand, commands, dismissed, isAvailable, parsed]);
+
+  const selected = items[Math.min(selectedIndex, items.length - 1)];
+
+  const runCommand = useCallback((command: SlashCommand, args: string) => {
+    const reportError = (error: unknown) => setGlobalError(error instanceof Error ? error.message : String(error));
+    try {
+      const result = command.run({ args, sessionId, sendEvent });
+      setPrompt(typeof result === "string" ? result : "");
+      if (result instanceof Promise) result.catch(reportError);
+    } catch (error) {
+      // The prompt stays so the command can be corrected
+      reportError(error);
+    }
+    setSelectedIndex(0);
+  }, [sendEvent, sessionId, setGlobalError, setPrompt]);
+
+  const completeItem = useCallback((item: SlashMenuItem) => {
+    setPrompt(item.kind === "argument" ? `/${item.command.name} ${item.value}` : `/${item.command.name} `);
+    setSelectedIndex(0);
+  }, [setPrompt]);
+
+  const chooseItem = useCallback((item: SlashMenuItem) => {
+    if (item.kind === "argument") runCommand(item.command, item.value);
+    else if (parsed?.hasArgs) runCommand(item.command, parsed.args);
+    else if (needsArguments(item.command)) completeItem(item);
+    else runCommand(item.command, "");
+  }, [completeItem, parsed, runCommand]);
+
+  // Runs a typed command such as "/model some-handle" that the menu does not list
+  const runTypedCommand = useCallback((): boolean => {
+    if (!parsed || !activeCommand || dismissed) return false;
+    runCommand(activeCommand, parsed.args);
+    return true;
+  }, [activeCommand, dismissed, parsed, runCommand]);
+
+  // True when the key drove the menu and the textarea should ignore it
+  const handleCommandKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!parsed || dismissed) return false;
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setDismissed(true);
+      return true;
+    }
+    if (e.key === "Enter" && !e.shiftKey) {
+      if (selected) {
+        e.preventDefault();
+        chooseItem(selected);
+        return true;
+      }
+      if (runTypedCommand()) {
+        e.preventDefault();
+        return true;
+      }
+      return false;
+    }
+    if (items.length === 0) return false;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelectedIndex((index) => (Math.min(index, items.length - 1) + step + items.length) % items.length);
+      return true;
+    }
+    if (e.key === "Tab" && selected) {
+      e.preventDefault();
+      completeItem(selected);
+      return true;
+    }
+    return false;
+  }, [chooseItem, completeItem, dismissed, items.length, parsed, runTypedCommand, selected]);
+
+  // Call with every edit; a dismissed menu comes back once a new command is started
+  const handleCommandChange = useCallback((text: string) => {
+    if (text.length <= 1 || !text.startsWith("/")) setDismissed(false);
+    setSelectedIndex(0);
+  }, []);
+
+  return {
+    items,
+    selectedIndex: Math.min(selectedIndex, Math.max(items.length - 1, 0)),
+    chooseItem,
+    runTypedCommand,
+    handleCommandKeyDown,
+    handleCommandChange,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * ANSI SGR (color and text attribute) parsing for terminal output.
+ * Other escape sequences are dropped.
+ */
+
+export type AnsiStyle = {
+  color?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+};
+
+export type AnsiSpan = {
+  text: string;
+  style: AnsiStyle;
+};
+
+// Standard then bright colors, tuned for the dark terminal background
+const PALETTE = [
+  "#1e1e1e", "#f14c4c", "#23d18b", "#f5f543", "#3b8eea", "#d670d6", "#29b8db", "#e5e5e5",
+  "#666666", "#f87171", "#4ade80", "#fde047", "#60a5fa", "#e879f9", "#67e8f9", "#ffffff",
+];
+
+// CSI sequences (SGR ends in "m") and OSC sequences such as hyperlinks and titles
+// eslint-disable-next-line no-control-regex
+const ESCAPE_PATTERN = /\u001b\[([0-9;:?]*)([@-~])|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+function color256(index: number): string | undefined {
+  if (index < 16) return PALETTE[index];
+  if (index < 232) {
+    const value = index - 16;
+    const channel = (level: number) => (level === 0 ? 0 : 55 + level * 40);
+    return `rgb(${channel(Math.floor(value / 36))}, ${channel(Math.floor(value / 6) % 6)}, ${channel(value % 6)})`;
+  }
+  if (index < 256) {
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  return undefined;
+}
+
+// Reads a 38/48 extended color starting at codes[index]; returns the color and how many codes it used
+function extendedColor(codes: number[], index: number): [string | undefined, number] {
+  if (codes[index + 1] === 5) return [color256(codes[index + 2]), 3];
+  if (codes[index + 1] === 2) {
+    const [r, g, b] = codes.slice(index + 2, index + 5);
+    return [`rgb(${r ?? 0}, ${g ?? 0}, ${b ?? 0})`, 5];
+  }
+  return [undefined, 1];
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === "" ? [0] : params.split(/[;:]/).map((code) => Number(code) || 0);
+  let next = { ...style };
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code >= 30 && code <= 37) next.color = PALETTE[code - 30];
+    else if (code >= 90 && code <= 97) next.color = PALETTE[code - 90 + 8];
+    else if (code === 39) next.color = undefined;
+    else if (code >= 40 && code <= 47) next.background = PALETTE[code - 40];
+    else if (code >= 100 && code <= 107) next.background = PALETTE[code - 100 + 8];
+    else if (code === 49) next.background = undefined;
+    else if (code === 38 || code === 48) {
+      const [value, used] = extendedColor(codes, i);
+      if (code === 38) next.color = value;
+      else next.background = value;
+      i += used - 1;
+    }
+  }
+  return next;
+}
+
+/**
+ * Resolve carriage returns the way a terminal would for progress output:
+ * text after a \r replaces the line so far.
+ */
+function applyCarriageReturns(spans: AnsiSpan[]): AnsiSpan[] {
+  const done: AnsiSpan[] = [];
+  let line: AnsiSpan[] = [];
+  let pendingReturn = false;
+  for (const span of spans) {
+    for (const part of span.text.split(/(\r\n|\r|\n)/)) {
+      if (part === "\r") {
+        pendingReturn = true;
+      } else if (part === "\n" || part === "\r\n") {
+        done.push(...line, { text: "\n", style: span.style });
+        line = [];
+        pendingReturn = false;
+      } else if (part) {
+        if (pendingReturn) line = [];
+        pendingReturn = false;
+        line.push({ text: part, style: span.style });
+      }
+    }
+  }
+  return [...done, ...line];
+}
+
+export function parseAnsi(text: string): AnsiSpan[] {
+  const spans: AnsiSpan[] = [];
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+  const push = (chunk: string) => {
+    if (chunk) spans.push({ text: chunk, style });
+  };
+
+  for (const match of text.matchAll(ESCAPE_PATTERN)) {
+    push(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    if (match[2] === "m") style = applySgr(style, match[1]);
+  }
+  push(text.slice(lastIndex));
+  return applyCarriageReturns(spans);
+}
+
+export function stripAnsi(text: string): string {
+  return parseAnsi(text).map((span) => span.text).join("");
+}
@@ -0,0 +1,161 @@
+/**
+ * Line diff for tool call previews (Myers' algorithm), plus folding of
+ * unchanged regions.
+ */
+
+export type DiffLine = {
+  type: "context" | "add" | "remove";
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+};
+
+export type DiffBlock =
+  | { type: "lines"; lines: DiffLine[] }
+  | { type: "fold"; lines: DiffLine[] };
+
+// Past these sizes the diff is shown as a whole-block replacement
+const MAX_EDIT_DISTANCE = 400;
+const MAX_SEARCH_LINES = 5000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+type Op = "=" | "-" | "+";
+
+// Edit script from a to b, or null when the edit distance exceeds the limit
+function shortestEdit(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max > MAX_SEARCH_LINES) return null;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m, offset);
+    }
+  }
+  return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, offset: number): Op[] {
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push("=");
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? "+" : "-");
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Shared head and tail need no search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const ops = shortestEdit(middleA, middleB)
+    ?? [...middleA.map((): Op => "-"), ...middleB.map((): Op => "+")];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const pushContext = (text: string) => {
+    oldIndex++;
+    newIndex++;
+    lines.push({ type: "context", text, oldNumber: oldIndex, newNumber: newIndex });
+  };
+
+  a.slice(0, start).forEach(pushContext);
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === "=") {
+      pushContext(middleA[i++]);
+      j++;
+    } else if (op === "-") {
+      oldIndex++;
+      lines.push({ type: "remove", text: middleA[i++], oldNumber: oldIndex });
+    } else {
+      newIndex++;
+      lines.push({ type: "add", text: middleB[j++], newNumber: newIndex });
+    }
+  }
+  a.slice(endA).forEach(pushContext);
+  return lines;
+}
+
+/**
+ * Group a diff into shown lines and folds of unchanged lines,
+ * keeping `context` unchanged lines around each change.
+ */
+export function foldUnchanged(lines: DiffLine[], context = 3): DiffBlock[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === "context") return;
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) keep[i] = true;
+  });
+
+  // Folding a line or two saves nothing
+  let runStart = 0;
+  lines.forEach((_, index) => {
+    if (keep[index]) {
+      if (index - runStart <= 2) keep.fill(true, runStart, index);
+      runStart = index + 1;
+    }
+  });
+  if (lines.length - runStart <= 2) keep.fill(true, runStart);
+
+  const blocks: DiffBlock[] = [];
+  lines.forEach((line, index) => {
+    const type = keep[index] ? "lines" : "fold";
+    const last = blocks[blocks.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type, lines: [line] });
+    }
+  });
+  return blocks;
+}
@@ -0,0 +1,213 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import type { SDKMessage, StreamMessage } from "../types";
+import type { SessionView } from "../store/useAppStore";
+import { MessageCard } from "../components/EventCard";
+import { stripAnsi } from "./ansi";
+import { extractTagContent, getToolSummary, indexToolCalls } from "../tools";
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: "markdown", label: "Markdown", description: "Readable transcript with collapsible tool calls" },
+  { value: "json", label: "JSON", description: "Every message exactly as Cowork stores it" },
+  { value: "html", label: "HTML", description: "Single page styled like the app" },
+];
+
+// A code fence longer than any backtick run inside the text
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longestRun + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function messageToMarkdown(message: StreamMessage): string | null {
+  if (message.type === "user_prompt") {
+    const attachments = message.attachments?.length ? `\n\n${message.attachments.map((attachment) => `- Attached: ${attachment.path ?? attachment.name}`).join("\n")}` : "";
+    return `## User\n\n${message.prompt}${attachments}`;
+  }
+  if (message.type === "model_change") {
+    return `_Switched model to ${message.model}_`;
+  }
+
+  const sdkMessage = message as SDKMessage;
+  switch (sdkMessage.type) {
+    case "assistant":
+      return `## Assistant\n\n${sdkMessage.content}`;
+    case "reasoning":
+      return details("Thinking", sdkMessage.content);
+    case "tool_call": {
+      const summary = getToolSummary(sdkMessage.toolName, sdkMessage.toolInput);
+      const title = summary ? `${sdkMessage.toolName}: <code>${escapeHtml(summary)}</code>` : sdkMessage.toolName;
+      return details(title, fence(JSON.stringify(sdkMessage.toolInput, null, 2), "json"));
+    }
+    case "tool_result": {
+      const content = sdkMessage.isError
+        ? extractTagContent(sdkMessage.content, "tool_use_error") || sdkMessage.content
+        : sdkMessage.content;
+      return details(sdkMessage.isError ? "Output (error)" : "Output", fence(stripAnsi(content)));
+    }
+    case "result":
+      return sdkMessage.success ? null : `## Error\n\n${fence(sdkMessage.error || "Unknown error")}`;
+    default:
+      return null;
+  }
+}
+
+function sessionHeading(session: SessionView): string[] {
+  return [
+    `Conversation: ${session.id}`,
+    ...(session.cwd ? [`Working directory: ${session.cwd}`] : []),
+    `Exported: ${new Date().toLocaleString()}`,
+  ];
+}
+
+export function toMarkdown(session: SessionView, messages: StreamMessage[]): string {
+  const sections = messages.map(messageToMarkdown).filter((section): section is string => section !== null);
+  const heading = sessionHeading(session).map((line) => `- ${line}`).join("\n");
+  return `# ${session.title || session.id}\n\n${heading}\n\n${sections.join("\n\n")}\n`;
+}
+
+export function toJson(session: SessionView, messages: StreamMessage[]): string {
+  const { id, title, cwd, agentId, createdAt, updatedAt } = session;
+  return JSON.stringify({ id, title, cwd, agentId, createdAt, updatedAt, exportedAt: Date.now(), messages }, null, 2);
+}
+
+// Session metadata plus messages, as written by toJson
+export type Transcript = {
+  id?: string;
+  title?: string;
+  cwd?: string;
+  agentId?: string;
+  createdAt?: number;
+  messages: StreamMessage[];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+const isOptional = (value: unknown, type: "string" | "number" | "boolean") => value === undefined || typeof value === type;
+
+function isAttachment(value: unknown): boolean {
+  return isObject(value) && typeof value.id === "string" && typeof value.name === "string" && typeof value.mediaType === "string"
+    && isOptional(value.size, "number") && isOptional(value.data, "string") && isOptional(value.path, "string");
+}
+
+// Whether a message has every field its card reads, with the right type
+function isStreamMessage(message: unknown): message is StreamMessage {
+  if (!isObject(message)) return false;
+  switch (message.type) {
+    case "user_prompt":
+      return typeof message.prompt === "string"
+        && (message.attachments === undefined || (Array.isArray(message.attachments) && message.attachments.every(isAttachment)));
+    case "model_change":
+      return typeof message.model === "string";
+    case "init":
+      return isOptional(message.conversationId, "string") && isOptional(message.model, "string");
+    case "assistant":
+    case "reasoning":
+      return typeof message.content === "string";
+    case "tool_call":
+      return typeof message.toolCallId === "string" && typeof message.toolName === "string" && isObject(message.toolInput);
+    case "tool_result":
+      return typeof message.toolCallId === "string" && typeof message.content === "string" && isOptional(message.isError, "boolean");
+    case "result":
+      return typeof message.success === "boolean" && isOptional(message.result, "string") && isOptional(message.error, "string");
+    case "stream_event":
+      return isObject(message.event) && typeof message.event.type === "string";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Read a JSON export back. A bare StreamMessage[] is accepted too. Malformed
+ * messages are dropped; throws when the text is not a transcript or nothing in
+ * it can be shown.
+ */
+export function parseTranscript(text: string): Transcript {
+  const data: unknown = JSON.parse(text);
+  const record = (Array.isArray(data) ? { messages: data } : data) as Record<string, unknown> | null;
+  if (!record || typeof record !== "object" || !Array.isArray(record.messages)) {
+    throw new Error("Not a transcript: expected a messages array");
+  }
+  const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+  const messages = record.messages.filter(isStreamMessage);
+  if (record.messages.length > 0 && messages.length === 0) {
+    throw new Error("Not a transcript: none of its messages could be read");
+  }
+  return {
+    id: optionalString(record.id),
+    title: optionalString(record.title),
+    cwd: optionalString(record.cwd),
+    agentId: optionalString(record.agentId),
+    createdAt: typeof record.createdAt === "number" ? record.createdAt : undefined,
+    messages,
+  };
+}
+
+// The app's compiled styles, so the page looks the same without the app
+function collectStyles(): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) rules.push(rule.cssText);
+    } catch {
+      // Cross-origin sheets cannot be read; the page falls back to defaults for them
+    }
+  }
+  return rules.join("\n");
+}
+
+export function toHtml(session: SessionView, messages: StreamMessage[]): string {
+  const toolCalls = indexToolCalls(messages);
+  const body = renderToStaticMarkup(
+    <main className="mx-auto max-w-3xl px-8 py-6">
+      <h1 className="text-xl font-semibold text-ink-900">{session.title || session.id}</h1>
+      <div className="mt-1 mb-4 grid text-xs text-muted">
+        {sessionHeading(session).map((line) => <span key={line}>{line}</span>)}
+      </div>
+      {messages.map((message, index) => (
+        <MessageCard
+          key={index}
+          message={message}
+          toolCall={message.type === "tool_result" ? toolCalls.get(message.toolCallId) : undefined}
+          expandOutput
+        />
+      ))}
+    </main>
+  );
+  const title = escapeHtml(session.title || session.id);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${title}</title>
+<style>${collectStyles()}</style>
+</head>
+<body class="bg-surface-cream">${body}</body>
+</html>
+`;
+}
+
+/**
+ * Write a session transcript through the native save dialog.
+ * Sessions with history still on the server are exported from the full server copy.
+ * Resolves to the written path, or null when the dialog was cancelled.
+ */
+export async function exportSession(session: SessionView, format: ExportFormat): Promise<string | null> {
+  const isComplete = session.hydrated && !session.hasMoreHistory;
+  const messages = isComplete ? session.messages : (await window.electron.getSessionMessages(session.id)) as StreamMessage[];
+
+  const content = format === "markdown"
+    ? toMarkdown(session, messages)
+    : format === "json"
+      ? toJson(session, messages)
+      : toHtml(session, messages);
+  const defaultName = (session.title || session.id).replace(/[^\w.-]+/g, "-").slice(0, 80);
+  return window.electron.exportSession(content, format, defaultName);
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { ServerEvent, SessionStatus, StreamMessage } from "../types";
+import type { Transcript } from "../render/export";
+import type { AgentSummary, ApprovalMode, MemoryBlock, ModelSummary, PromptAttachment, QueuedPrompt, RunQueueStatus, SearchResult, ServerEvent, SessionOrganization, SessionStatus, StreamMessage, UsageReport, UsageTotals, WorkspaceProfile } from "../types";
 
 export type PermissionRequest = {
   toolUseId: string;
@@ -12,57 +13,192 @@ export type SessionView = {
   title: string;
   status: SessionStatus;
   cwd?: string;
+  agentId?: string;
+  model?: string;
   messages: StreamMessage[];
   permissionRequests: PermissionRequest[];
   lastPrompt?: string;
   createdAt?: number;
   updatedAt?: number;
+  pinned?: boolean;
+  archived?: boolean;
+  tags?: string[];
   hydrated: boolean;
+  historyCursor?: string;
+  hasMoreHistory: boolean;
+  loadingHistory: boolean;
+  // Imported transcripts: local only, never sent to the main process
+  readOnly?: boolean;
+  replay?: ReplayState;
+};
+
+export type ReplayState = {
+  // Number of messages shown so far
+  position: number;
+  playing: boolean;
+  // Multiplier on the reconstructed original pace
+  speed: number;
+};
+
+export type SessionMemory = {
+  agentId: string;
+  blocks: MemoryBlock[];
+  // Blocks the agent rewrote since the session was opened
+  changedLabels: string[];
+};
+
+// A search hit to scroll to once its session shows it
+export type SearchTarget = {
+  sessionId: string;
+  position: number;
 };
 
 interface AppState {
   sessions: Record<string, SessionView>;
   activeSessionId: string | null;
   prompt: string;
+  // Files and images going with the next prompt
+  attachments: PromptAttachment[];
   cwd: string;
-  pendingStart: boolean;
+  permissionMode: ApprovalMode;
+  disabledTools: string[];
+  // clientRequestId of the session.start waiting for its first session.status
+  pendingStartId: string | null;
   globalError: string | null;
   sessionsLoaded: boolean;
   showStartModal: boolean;
   historyRequested: Set<string>;
+  runQueue: RunQueueStatus;
+  agents: AgentSummary[];
+  agentsLoaded: boolean;
+  // Agent for the next new session; null uses the server default
+  selectedAgentId: string | null;
+  models: ModelSummary[];
+  // Model for the next new session; null keeps the agent's own model
+  selectedModel: string | null;
+  memory: Record<string, SessionMemory>;
+  showMemoryPanel: boolean;
+  // Unsent prompt text of the sessions not in view
+  drafts: Record<string, string>;
+  draftsLoaded: boolean;
+  // Prompts sent in any session, most recent first, for recall in the composer
+  promptHistory: string[];
+  // Follow-up prompts waiting for each session's current run
+  promptQueues: Record<string, QueuedPrompt[]>;
+  // File content before a Write call, by toolCallId; null for new files
+  fileSnapshots: Record<string, string | null>;
+  // Latest answer to the sidebar search
+  searchResults: { query: string; results: SearchResult[] } | null;
+  searchTarget: SearchTarget | null;
+  workspaceProfiles: WorkspaceProfile[];
+  // Directory whose profile is being edited, if any
+  profileEditorCwd: string | null;
+  usage: Record<string, UsageTotals>;
+  usageReport: UsageReport | null;
+  showUsageDashboard: boolean;
+  // Open template library and its search text
+  templateLibrary: { query: string } | null;
 
   setPrompt: (prompt: string) => void;
+  setAttachments: (attachments: PromptAttachment[]) => void;
   setCwd: (cwd: string) => void;
-  setPendingStart: (pending: boolean) => void;
+  setPermissionMode: (mode: ApprovalMode) => void;
+  setDisabledTools: (tools: string[]) => void;
+  setSelectedAgentId: (agentId: string | null) => void;
+  setSelectedModel: (model: string | null) => void;
+  setShowMemoryPanel: (show: boolean) => void;
+  setPendingStartId: (clientRequestId: string | null) => void;
   setGlobalError: (error: string | null) => void;
   setShowStartModal: (show: boolean) => void;
   setActiveSessionId: (id: string | null) => void;
   markHistoryRequested: (sessionId: string) => void;
+  setHistoryLoading: (sessionId: string, loading: boolean) => void;
   resolvePermissionRequest: (sessionId: string, toolUseId: string) => void;
+  removeSession: (sessionId: string) => void;
+  renameSession: (sessionId: string, title: string) => void;
+  organizeSession: (sessionId: string, updates: SessionOrganization) => void;
+  // Adds a read-only session for an imported transcript and returns its id
+  openTranscript: (transcript: Transcript) => string;
+  setReplay: (sessionId: string, replay: ReplayState | undefined) => void;
+  // Swap in a session's full server history, so message positions match the search index
+  replaceSessionMessages: (sessionId: string, messages: StreamMessage[]) => void;
+  // Hide the messages shown so far; the history stays on the server
+  clearSessionView: (sessionId: string) => void;
+  setSearchTarget: (target: SearchTarget | null) => void;
+  setProfileEditorCwd: (cwd: string | null) => void;
+  setShowUsageDashboard: (show: boolean) => void;
+  setTemplateLibrary: (library: { query: string } | null) => void;
   handleServerEvent: (event: ServerEvent) => void;
 }
 
+// Draft key for the prompt of a session not started yet
+const NEW_SESSION_DRAFT = "";
+
 function createSession(id: string): SessionView {
-  return { id, title: "", status: "idle", messages: [], permissionRequests: [], hydrated: false };
+  return { id, title: "", status: "idle", messages: [], permissionRequests: [], hydrated: false, hasMoreHistory: false, loadingHistory: false };
 }
 
 export const useAppStore = create<AppState>((set, get) => ({
   sessions: {},
   activeSessionId: null,
   prompt: "",
+  attachments: [],
   cwd: "",
-  pendingStart: false,
+  permissionMode: "ask-bash-write-edit",
+  disabledTools: [],
+  pendingStartId: null,
   globalError: null,
   sessionsLoaded: false,
   showStartModal: false,
   historyRequested: new Set(),
+  runQueue: { active: 0, limit: 3, queued: [] },
+  agents: [],
+  agentsLoaded: false,
+  selectedAgentId: null,
+  models: [],
+  selectedModel: null,
+  memory: {},
+  showMemoryPanel: false,
+  drafts: {},
+  draftsLoaded: false,
+  promptHistory: [],
+  promptQueues: {},
+  fileSnapshots: {},
+  searchResults: null,
+  searchTarget: null,
+  workspaceProfiles: [],
+  profileEditorCwd: null,
+  usage: {},
+  usageReport: null,
+  showUsageDashboard: false,
+  templateLibrary: null,
 
   setPrompt: (prompt) => set({ prompt }),
+  setAttachments: (attachments) => set({ attachments }),
   setCwd: (cwd) => set({ cwd }),
-  setPendingStart: (pendingStart) => set({ pendingStart }),
+  setPermissionMode: (permissionMode) => set({ permissionMode }),
+  setDisabledTools: (disabledTools) => set({ disabledTools }),
+  setSelectedAgentId: (selectedAgentId) => set({ selectedAgentId }),
+
+  setSelectedModel: (selectedModel) => set({ selectedModel }),
+  setShowMemoryPanel: (showMemoryPanel) => set({ showMemoryPanel }),
+  setPendingStartId: (pendingStartId) => set({ pendingStartId }),
   setGlobalError: (globalError) => set({ globalError }),
   setShowStartModal: (showStartModal) => set({ showStartModal }),
-  setActiveSessionId: (id) => set({ activeSessionId: id }),
+  // The composer's text is kept as the draft of the session being left
+  setActiveSessionId: (id) => set((state) => {
+    if (id === state.activeSessionId) return { activeSessionId: id };
+    const previous = state.activeSessionId;
+    // A session removed from the list takes its draft with it
+    const keepPrevious = previous === null || !!state.sessions[previous];
+    const drafts = keepPrevious ? { ...state.drafts, [previous ?? NEW_SESSION_DRAFT]: state.prompt } : state.drafts;
+    return { activeSessionId: id, drafts, prompt: drafts[id ?? NEW_SESSION_DRAFT] ?? "" };
+  }),
+  setSearchTarget: (searchTarget) => set({ searchTarget }),
+
+  setProfileEditorCwd: (profileEditorCwd) => set({ profileEditorCwd }),
+  setShowUsageDashboard: (showUsageDashboard) => set({ showUsageDashboard }),
+  setTemplateLibrary: (templateLibrary) => set({ templateLibrary }),
 
   markHistoryRequested: (sessionId) => {
     set((state) => {
@@ -72,6 +208,129 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
 
+  setHistoryLoading: (sessionId, loading) => {
+    set((state) => {
+      const existing = state.sessions[sessionId];
+      if (!existing) return {};
+      return { sessions: { ...state.sessions, [sessionId]: { ...existing, loadingHistory: loading } } };
+    });
+  },
+
+  removeSession: (sessionId) => {
+    const state = get();
+
+    const nextSessions = { ...state.sessions };
+    delete nextSessions[sessionId];
+
+    const nextHistoryRequested = new Set(state.historyRequested);
+    nextHistoryRequested.delete(sessionId);
+
+    const nextMemory = { ...state.memory };
+    delete nextMemory[sessionId];
+
+    const nextPromptQueues = { ...state.promptQueues };
+    delete nextPromptQueues[sessionId];
+
+    const nextDrafts = { ...state.drafts };
+    delete nextDrafts[sessionId];
+
+    const hasRemaining = Object.keys(nextSessions).length > 0;
+
+    set({
+      sessions: nextSessions,
+      historyRequested: nextHistoryRequested,
+      memory: nextMemory,
+      promptQueues: nextPromptQueues,
+      drafts: nextDrafts,
+      showStartModal: !hasRemaining
+    });
+
+    if (state.activeSessionId === sessionId) {
+      const remaining = Object.values(nextSessions).sort(
+        (a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0)
+      );
+      get().setActiveSessionId(remaining[0]?.id ?? null);
+    }
+  },
+
+  renameSession: (sessionId, title) => {
+    set((state) => {
+      const existing = state.sessions[sessionId];
+      if (!existing) return {};
+      return { sessions: { ...state.sessions, [sessionId]: { ...existing, title } } };
+    });
+  },
+
+  organizeSession: (sessionId, updates) => {
+    set((state) => {
+      const existing = state.sessions[sessionId];
+      if (!existing) return {};
+      return { sessions: { ...state.sessions, [sessionId]: { ...existing, ...updates } } };
+    });
+  },
+
+  openTranscript: (transcript) => {
+    const id = `imported-${crypto.randomUUID()}`;
+    const now = Date.now();
+    set((state) => ({
+      sessions: {
+        ...state.sessions,
+        [id]: {
+          ...createSession(id),
+          title: transcript.title || transcript.id || "Imported transcript",
+          status: "completed",
+          cwd: transcript.cwd,
+          agentId: transcript.agentId,
+          messages: transcript.messages,
+          createdAt: transcript.createdAt ?? now,
+          updatedAt: now,
+          hydrated: true,
+          readOnly: true
+        }
+      },
+      showStartModal: false
+    }));
+    get().setActiveSessionId(id);
+    return id;
+  },
+
+  setReplay: (sessionId, replay) => {
+    set((state) => {
+      const existing = state.sessions[sessionId];
+      if (!existing) return {};
+      return { sessions: { ...state.sessions, [sessionId]: { ...existing, replay } } };
+    });
+  },
+
+  replaceSessionMessages: (sessionId, messages) => {
+    set((state) => {
+      const existing = state.sessions[sessionId] ?? createSession(sessionId);
+      const historyRequested = new Set(state.historyRequested);
+      historyRequested.add(sessionId);
+      return {
+        sessions: {
+          ...state.sessions,
+          [sessionId]: { ...existing, messages, hydrated: true, historyCursor: undefined, hasMoreHistory: false, loadingHistory: false }
+        },
+        historyRequested
+      };
+    });
+  },
+
+  clearSessionView: (sessionId) => {
+    set((state) => {
+      const existing = state.sessions[sessionId];
+      if (!existing) return {};
+      // Not hydrated, so exports still fetch the full history
+      return {
+        sessions: {
+          ...state.sessions,
+          [sessionId]: { ...existing, messages: [], hydrated: false, historyCursor: undefined, hasMoreHistory: false, loadingHistory: false }
+        }
+      };
+    });
+  },
+
   resolvePermissionRequest: (sessionId, toolUseId) => {
     set((state) => {
       const existing = state.sessions[sessionId];
@@ -94,6 +353,10 @@ export const useAppStore = create<AppState>((set, get) => ({
     switch (event.type) {
       case "session.list": {
         const nextSessions: Record<string, SessionView> = {};
+        // Imported transcripts are not in the main process index
+        for (const session of Object.values(state.sessions)) {
+          if (session.readOnly) nextSessions[session.id] = session;
+        }
         for (const session of event.payload.sessions) {
           const existing = state.sessions[session.id] ?? createSession(session.id);
           nextSessions[session.id] = {
@@ -101,6 +364,11 @@ export const useAppStore = create<AppState>((set, get) => ({
             status: session.status,
             title: session.title,
             cwd: session.cwd,
+            agentId: session.agentId,
+            model: session.model,
+            pinned: session.pinned,
+            archived: session.archived,
+            tags: session.tags,
             createdAt: session.createdAt,
             updatedAt: session.updatedAt
           };
@@ -108,7 +376,7 @@ export const useAppStore = create<AppState>((set, get) => ({
 
         set({ sessions: nextSessions, sessionsLoaded: true });
 
-        const hasSessions = event.payload.sessions.length > 0;
+        const hasSessions = Object.keys(nextSessions).length > 0;
         set({ showStartModal: !hasSessions });
 
         if (!hasSessions) {
@@ -126,9 +394,7 @@ export const useAppStore = create<AppState>((set, get) => ({
             get().setActiveSessionId(latestSession.id);
           }
         } else if (state.activeSessionId) {
-          const stillExists = event.payload.sessions.some(
-            (session) => session.id === state.activeSessionId
-          );
+          const stillExists = state.activeSessionId in nextSessions;
           if (!stillExists) {
             get().setActiveSessionId(null);
           }
@@ -137,15 +403,25 @@ export const useAppStore = create<AppState>((set, get) => ({
       }
 
       case "session.history": {
-        const { sessionId, messages: historyMessages, status } = event.payload;
+        const { sessionId, messages: historyMessages, status, before, cursor, hasMore } = event.payload;
         set((state) => {
           const existing = state.sessions[sessionId] ?? createSession(sessionId);
+          const history = { historyCursor: cursor, hasMoreHistory: hasMore, loadingHistory: false };
+          if (before) {
+            // Older page: prepend, the live tail is already in place
+            return {
+              sessions: {
+                ...state.sessions,
+                [sessionId]: { ...existing, ...history, messages: [...historyMessages, ...existing.messages] }
+              }
+            };
+          }
           // Merge: history messages first, then any existing messages (like user_prompt added during init)
           const mergedMessages = [...historyMessages, ...existing.messages];
           return {
             sessions: {
               ...state.sessions,
-              [sessionId]: { ...existing, status, messages: mergedMessages, hydrated: true }
+              [sessionId]: { ...existing, ...history, status, messages: mergedMessages, hydrated: true }
             }
           };
         });
@@ -153,7 +429,9 @@ export const useAppStore = create<AppState>((set, get) => ({
       }
 
       case "session.status": {
-        const { sessionId, status, title, cwd } = event.payload;
+        const { sessionId, status, title, cwd, agentId, model, clientRequestId } = event.payload;
+        // Other sessions' runs report status too; only the echoed request id marks ours
+        const isStarted = !!clientRequestId && clientRequestId === state.pendingStartId;
         set((state) => {
           const existing = state.sessions[sessionId] ?? createSession(sessionId);
           return {
@@ -164,48 +442,54 @@ export const useAppStore = create<AppState>((set, get) => ({
                 status,
                 title: title ?? existing.title,
                 cwd: cwd ?? existing.cwd,
-                updatedAt: Date.now()
+                agentId: agentId ?? existing.agentId,
+                model: model ?? existing.model,
+                updatedAt: Date.now(),
+                // A session we just started has no server history beyond what streams in
+                hydrated: existing.hydrated || isStarted
               }
             }
           };
         });
 
-        if (state.pendingStart) {
+        if (isStarted) {
+          // Clear the sent prompt first so it is not kept as the next new session's draft
+          set({ pendingStartId: null, showStartModal: false, prompt: "", attachments: [] });
           get().setActiveSessionId(sessionId);
-          set({ pendingStart: false, showStartModal: false, prompt: "" });
         }
         break;
       }
 
-      case "session.deleted": {
-        const { sessionId } = event.payload;
-        const state = get();
-
-        const nextSessions = { ...state.sessions };
-        delete nextSessions[sessionId];
-
-        const nextHistoryRequested = new Set(state.historyRequested);
-        nextHistoryRequested.delete(sessionId);
-
-        const hasRemaining = Object.keys(nextSessions).length > 0;
+      case "session.renamed": {
+        get().renameSession(event.payload.sessionId, event.payload.title);
+        break;
+      }
 
-        set({
-          sessions: nextSessions,
-          historyRequested: nextHistoryRequested,
-          showStartModal: !hasRemaining
-        });
+      case "session.updated": {
+        const { sessionId, ...updates } = event.payload;
+        get().organizeSession(sessionId, updates);
+        break;
+      }
 
-        if (state.activeSessionId === sessionId) {
-          const remaining = Object.values(nextSessions).sort(
-            (a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0)
-          );
-          get().setActiveSessionId(remaining[0]?.id ?? null);
-        }
+      case "session.deleted": {
+        get().removeSession(event.payload.sessionId);
         break;
       }
 
       case "stream.message": {
         const { sessionId, message } = event.payload;
+        if (message.type === "model_change") {
+          // Switches made before the next prompt collapse into one marker
+          set((state) => {
+            const existing = state.sessions[sessionId];
+            if (!existing) return {};
+            const last = existing.messages[existing.messages.length - 1];
+            const messages = last?.type === "model_change" ? existing.messages.slice(0, -1) : [...existing.messages];
+            messages.push(message);
+            return { sessions: { ...state.sessions, [sessionId]: { ...existing, model: message.model, messages } } };
+          });
+          break;
+        }
         set((state) => {
           const existing = state.sessions[sessionId] ?? createSession(sessionId);
           const messages = [...existing.messages];
@@ -251,10 +535,10 @@ export const useAppStore = create<AppState>((set, get) => ({
       }
 
       case "stream.user_prompt": {
-        const { sessionId, prompt } = event.payload;
+        const { sessionId, prompt, attachments } = event.payload;
         set((state) => {
           const existing = state.sessions[sessionId] ?? createSession(sessionId);
-          const newMessages = [...existing.messages, { type: "user_prompt" as const, prompt }];
+          const newMessages = [...existing.messages, { type: "user_prompt" as const, prompt, attachments }];
           return {
             sessions: {
               ...state.sessions,
@@ -262,7 +546,8 @@ export const useAppStore = create<AppState>((set, get) => ({
                 ...existing,
                 messages: newMessages
               }
-            }
+            },
+            promptHistory: prompt.trim() ? [prompt, ...state.promptHistory.filter((entry) => entry !== prompt)] : state.promptHistory
           };
         });
         break;
@@ -285,6 +570,95 @@ export const useAppStore = create<AppState>((set, get) => ({
         break;
       }
 
+      case "runs.status": {
+        set({ runQueue: event.payload });
+        break;
+      }
+
+      case "agents.list": {
+        const { agents } = event.payload;
+        set((state) => ({
+          agents,
+          agentsLoaded: true,
+          // Drop a selection that no longer exists on the server
+          selectedAgentId: agents.some((agent) => agent.id === state.selectedAgentId) ? state.selectedAgentId : null
+        }));
+        break;
+      }
+
+      case "agents.created": {
+        set({ selectedAgentId: event.payload.agent.id });
+        break;
+      }
+
+      case "models.list": {
+        set({ models: event.payload.models });
+        break;
+      }
+
+      case "profiles.list": {
+        set({ workspaceProfiles: event.payload.profiles });
+        break;
+      }
+
+      case "usage.session": {
+        const { sessionId, usage } = event.payload;
+        set((state) => ({
+          usage: { ...state.usage, [sessionId]: usage }
+        }));
+        break;
+      }
+
+      case "usage.report": {
+        set({ usageReport: event.payload.report });
+        break;
+      }
+
+      case "tool.snapshot": {
+        const { toolCallId, previousContent } = event.payload;
+        set((state) => ({
+          fileSnapshots: { ...state.fileSnapshots, [toolCallId]: previousContent }
+        }));
+        break;
+      }
+
+      case "prompts.queue": {
+        const { sessionId, prompts } = event.payload;
+        set((state) => ({
+          promptQueues: { ...state.promptQueues, [sessionId]: prompts }
+        }));
+        break;
+      }
+
+      case "memory.list": {
+        const { sessionId, agentId, blocks, changedLabels } = event.payload;
+        set((state) => ({
+          memory: { ...state.memory, [sessionId]: { agentId, blocks, changedLabels } }
+        }));
+        break;
+      }
+
+      case "drafts.list": {
+        set((state) => {
+          // Anything typed before the saved drafts arrived wins
+          const drafts = { ...event.payload.drafts, ...state.drafts };
+          const activeDraft = state.activeSessionId ? drafts[state.activeSessionId] : undefined;
+          return { drafts, draftsLoaded: true, prompt: state.prompt || activeDraft || "" };
+        });
+        break;
+      }
+
+      case "prompts.history": {
+        // Prompts sent since the index was last read stay on top
+        set((state) => ({ promptHistory: [...new Set([...state.promptHistory, ...event.payload.prompts])] }));
+        break;
+      }
+
+      case "search.results": {
+        set({ searchResults: event.payload });
+        break;
+      }
+
       case "runner.error": {
         set({ globalError: event.payload.message });
         break;
@@ -0,0 +1,20 @@
+/**
+ * Placeholders in prompt templates: {{name}}, letters, digits, dashes and underscores.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Each variable once, in the order it first appears
+export function templateVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+// Unfilled variables are left in place so they stand out in the prompt
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
+
+export function variableLabel(name: string): string {
+  const words = name.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,105 @@
+/**
+ * Tool metadata: the start modal's tool and approval pickers and how tool calls are summarized.
+ */
+
+import type { ApprovalMode, SDKToolCallMessage, StreamMessage } from "./types";
+
+export type ToolOption = {
+  name: string;
+  description: string;
+  readOnly: boolean;
+};
+
+// Tools a session can turn off. Restrictions are enforced through canUseTool, which
+// the CLI skips for reading files (Read, Glob, Grep, LS) and read-only shell
+// commands, so those are always available and not offered here.
+export const AVAILABLE_TOOLS: ToolOption[] = [
+  { name: "WebFetch", description: "Fetch a URL", readOnly: true },
+  { name: "WebSearch", description: "Search the web", readOnly: true },
+  { name: "TodoWrite", description: "Track a todo list", readOnly: true },
+  { name: "Task", description: "Delegate to a subagent", readOnly: false },
+  { name: "Bash", description: "Run shell commands", readOnly: false },
+  { name: "Edit", description: "Edit files", readOnly: false },
+  { name: "MultiEdit", description: "Apply several edits to a file", readOnly: false },
+  { name: "Write", description: "Create or overwrite files", readOnly: false },
+];
+
+export const READ_ONLY_TOOL_NAMES = AVAILABLE_TOOLS.filter((tool) => tool.readOnly).map((tool) => tool.name);
+
+export const APPROVAL_MODES: Array<{ value: ApprovalMode; label: string; description: string }> = [
+  { value: "ask-bash-write-edit", label: "Ask for Bash/Write/Edit", description: "Shell commands and file writes need approval" },
+  { value: "ask-mutating", label: "Ask for every change", description: "Any tool that is not read-only needs approval" },
+  { value: "bypass", label: "Bypass", description: "Run every tool without asking" },
+];
+
+/**
+ * Turn the picker's unchecked tools into session.start tool lists. Only unchecked
+ * tools are denied; tools the picker does not list stay available.
+ */
+export function toToolLists(disabledTools: string[]): { disallowedTools?: string[] } {
+  // Profiles saved before a tool left the picker may still list it
+  const disallowedTools = disabledTools.filter((name) => AVAILABLE_TOOLS.some((tool) => tool.name === name));
+  return disallowedTools.length > 0 ? { disallowedTools } : {};
+}
+
+// The one argument that best identifies a tool call
+export function getToolSummary(toolName: string, input: unknown): string | null {
+  const args = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const pick = (key: string) => (typeof args[key] === "string" && args[key]) || null;
+  switch (toolName) {
+    case "Bash": return pick("command");
+    case "Read": case "Write": case "Edit": return pick("file_path");
+    case "Glob": case "Grep": return pick("pattern");
+    case "Task": return pick("description");
+    case "WebFetch": return pick("url");
+    default: return null;
+  }
+}
+
+// Text inside <tag>…</tag>, e.g. the message of a tool_use_error
+export function extractTagContent(input: string, tag: string): string | null {
+  const match = input.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? match[1] : null;
+}
+
+export type FileEdit = {
+  filePath: string;
+  // Replaced snippet for Edit; Write calls diff against the on-disk snapshot instead
+  oldText?: string;
+  newText: string;
+};
+
+// What an Edit or Write call changes, or null for other tools and malformed input
+export function getFileEdit(toolName: string, input: unknown): FileEdit | null {
+  const args = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  if (typeof args.file_path !== "string") return null;
+  if (toolName === "Edit" && typeof args.old_string === "string" && typeof args.new_string === "string") {
+    return { filePath: args.file_path, oldText: args.old_string, newText: args.new_string };
+  }
+  if (toolName === "Write" && typeof args.content === "string") {
+    return { filePath: args.file_path, newText: args.content };
+  }
+  return null;
+}
+
+export type BashResult = {
+  // null when the command failed without reporting one, e.g. on timeout
+  exitCode: number | null;
+  output: string;
+};
+
+// Bash results of failed commands start with an "Exit code: N" line
+export function parseBashResult(content: string, isError: boolean): BashResult {
+  const match = content.match(/^Exit code: (\d+)\n?/);
+  if (match) return { exitCode: Number(match[1]), output: content.slice(match[0].length) };
+  return { exitCode: isError ? null : 0, output: content };
+}
+
+// Tool calls by id, so results can be shown with the call that produced them
+export function indexToolCalls(messages: StreamMessage[]): Map<string, SDKToolCallMessage> {
+  const calls = new Map<string, SDKToolCallMessage>();
+  for (const message of messages) {
+    if (message.type === "tool_call") calls.set(message.toolCallId, message);
+  }
+  return calls;
+}
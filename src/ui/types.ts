@@ -15,45 +15,245 @@ export type {
   CanUseToolResponse,
 } from "@letta-ai/letta-code-sdk";
 
+// A file or image sent to the agent along with a prompt
+export type PromptAttachment = {
+  id: string;
+  name: string;
+  // MIME type; empty when unknown
+  mediaType: string;
+  size?: number;
+  // Base64 content: images, and files that only exist in memory, e.g. pasted ones
+  data?: string;
+  // Where the file is on disk, if it came from there
+  path?: string;
+};
+
 export type UserPromptMessage = {
   type: "user_prompt";
   prompt: string;
+  attachments?: PromptAttachment[];
 };
 
 // Import for union type and local use
 import type { SDKMessage, CanUseToolResponse } from "@letta-ai/letta-code-sdk";
 
-export type StreamMessage = SDKMessage | UserPromptMessage;
+// Where a session switched models; not an SDK message
+export type ModelChangeMessage = {
+  type: "model_change";
+  model: string;
+};
+
+export type StreamMessage = SDKMessage | UserPromptMessage | ModelChangeMessage;
+
+export type SessionStatus = "idle" | "queued" | "running" | "completed" | "error";
 
-export type SessionStatus = "idle" | "running" | "completed" | "error";
+// Which tool calls need the user's approval before they run
+export type ApprovalMode = "bypass" | "ask-mutating" | "ask-bash-write-edit";
+
+// How long an approval lasts
+export type ApprovalScope = "once" | "session" | "directory";
 
 export type SessionInfo = {
   id: string;
   title: string;
   status: SessionStatus;
   lettaConversationId?: string;
+  agentId?: string;
+  // Model handle picked for this session; unset runs on the agent's own model
+  model?: string;
   cwd?: string;
+  permissionMode?: ApprovalMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  pinned?: boolean;
+  // Hidden from the sidebar list but still searchable
+  archived?: boolean;
+  tags?: string[];
   createdAt: number;
   updatedAt: number;
 };
 
+// Sidebar organization a session can be updated with
+export type SessionOrganization = Pick<SessionInfo, "pinned" | "archived" | "tags">;
+
+// Defaults for sessions started in a directory or below it
+export type WorkspaceProfile = {
+  cwd: string;
+  agentId?: string;
+  permissionMode?: ApprovalMode;
+  disabledTools?: string[];
+  // Given to the agent along with the first prompt of each new session
+  instructions?: string;
+  // Extra environment variables for the Letta Code process
+  env?: Record<string, string>;
+  updatedAt: number;
+};
+
+// A model the Letta server offers, identified by its provider/model handle
+export type ModelSummary = {
+  handle: string;
+  name: string;
+  provider?: string;
+  contextWindow?: number;
+};
+
+// Tokens and time spent on runs; reasoning tokens are part of completion tokens
+export type UsageTotals = {
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  durationMs: number;
+  // Estimated from the price table, or what Letta Code reported for unpriced models
+  costUsd: number;
+  // Runs whose model has no price, left out of costUsd
+  unpricedRuns: number;
+};
+
+// USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+// Prices keyed by model handle
+export type PriceTable = Record<string, ModelPrice>;
+
+// Usage of one agent or working directory
+export type UsageGroup = UsageTotals & { key: string };
+
+export type UsageBreakdown = {
+  totals: UsageTotals;
+  byAgent: UsageGroup[];
+  byCwd: UsageGroup[];
+};
+
+export type UsageReport = {
+  // The last seven days by local date (YYYY-MM-DD), oldest first
+  days: Array<UsageTotals & { date: string }>;
+  today: UsageBreakdown;
+  week: UsageBreakdown;
+  prices: PriceTable;
+};
+
+// A Letta agent sessions can run on
+export type AgentSummary = {
+  id: string;
+  name: string;
+  model?: string;
+  lastUsedAt?: number;
+};
+
+// A follow-up prompt waiting for its session's current run to end
+export type QueuedPrompt = {
+  id: string;
+  prompt: string;
+  attachments?: PromptAttachment[];
+  queuedAt: number;
+};
+
+// A core memory block of an agent
+export type MemoryBlock = {
+  id: string;
+  label: string;
+  value: string;
+  limit?: number;
+  description?: string;
+  readOnly?: boolean;
+};
+
+// Matched text split into runs, with the query terms marked
+export type SearchSnippet = Array<{ text: string; match: boolean }>;
+
+export type SearchHit = {
+  // Index of the message in the session's full server history
+  position: number;
+  kind: "user" | "assistant" | "tool_call" | "tool_result";
+  snippet: SearchSnippet;
+};
+
+// Search hits of one session, best match first
+export type SearchResult = {
+  sessionId: string;
+  title: string;
+  titleSnippet?: SearchSnippet;
+  hits: SearchHit[];
+};
+
+// A run waiting for a free slot; sessionId is unset for new sessions
+export type QueuedRun = {
+  runId: string;
+  sessionId?: string;
+  title: string;
+  cwd?: string;
+  queuedAt: number;
+};
+
+export type RunQueueStatus = {
+  active: number;
+  limit: number;
+  queued: QueuedRun[];
+};
+
 // Server -> Client events
 export type ServerEvent =
   | { type: "stream.message"; payload: { sessionId: string; message: StreamMessage } }
-  | { type: "stream.user_prompt"; payload: { sessionId: string; prompt: string } }
-  | { type: "session.status"; payload: { sessionId: string; status: SessionStatus; title?: string; cwd?: string; error?: string } }
+  | { type: "stream.user_prompt"; payload: { sessionId: string; prompt: string; attachments?: PromptAttachment[] } }
+  | { type: "session.status"; payload: { sessionId: string; status: SessionStatus; title?: string; cwd?: string; agentId?: string; model?: string; error?: string; clientRequestId?: string } }
   | { type: "session.list"; payload: { sessions: SessionInfo[] } }
-  | { type: "session.history"; payload: { sessionId: string; status: SessionStatus; messages: StreamMessage[] } }
+  | { type: "session.history"; payload: { sessionId: string; status: SessionStatus; messages: StreamMessage[]; before?: string; cursor?: string; hasMore: boolean } }
   | { type: "session.deleted"; payload: { sessionId: string } }
+  | { type: "session.renamed"; payload: { sessionId: string; title: string } }
+  | { type: "session.updated"; payload: { sessionId: string } & SessionOrganization }
   | { type: "permission.request"; payload: { sessionId: string; toolUseId: string; toolName: string; input: unknown } }
+  // previousContent is null when a Write creates a new file
+  | { type: "tool.snapshot"; payload: { sessionId: string; toolCallId: string; filePath: string; previousContent: string | null } }
+  | { type: "runs.status"; payload: RunQueueStatus }
+  | { type: "agents.list"; payload: { agents: AgentSummary[] } }
+  | { type: "agents.created"; payload: { agent: AgentSummary } }
+  | { type: "profiles.list"; payload: { profiles: WorkspaceProfile[] } }
+  | { type: "models.list"; payload: { models: ModelSummary[] } }
+  | { type: "usage.session"; payload: { sessionId: string; usage: UsageTotals } }
+  | { type: "usage.report"; payload: { report: UsageReport } }
+  | { type: "prompts.queue"; payload: { sessionId: string; prompts: QueuedPrompt[] } }
+  // Prompts sent in any session, most recent first
+  | { type: "prompts.history"; payload: { prompts: string[] } }
+  | { type: "drafts.list"; payload: { drafts: Record<string, string> } }
+  | { type: "memory.list"; payload: { sessionId: string; agentId: string; blocks: MemoryBlock[]; changedLabels: string[] } }
+  | { type: "search.results"; payload: { query: string; results: SearchResult[] } }
   | { type: "runner.error"; payload: { sessionId?: string; message: string } };
 
 // Client -> Server events
 export type ClientEvent =
-  | { type: "session.start"; payload: { title: string; prompt: string; cwd?: string; allowedTools?: string } }
-  | { type: "session.continue"; payload: { sessionId: string; prompt: string; cwd?: string } }
+  | { type: "session.start"; payload: { title: string; prompt: string; attachments?: PromptAttachment[]; cwd?: string; allowedTools?: string[]; disallowedTools?: string[]; permissionMode?: ApprovalMode; agentId?: string; model?: string; clientRequestId?: string } }
+  | { type: "session.continue"; payload: { sessionId: string; prompt: string; attachments?: PromptAttachment[]; cwd?: string } }
   | { type: "session.stop"; payload: { sessionId: string } }
   | { type: "session.delete"; payload: { sessionId: string } }
+  | { type: "session.rename"; payload: { sessionId: string; title: string } }
+  | { type: "session.update"; payload: { sessionId: string } & SessionOrganization }
   | { type: "session.list" }
-  | { type: "session.history"; payload: { sessionId: string } }
-  | { type: "permission.response"; payload: { sessionId: string; toolUseId: string; result: CanUseToolResponse } };
+  | { type: "session.history"; payload: { sessionId: string; before?: string } }
+  | { type: "permission.response"; payload: { sessionId: string; toolUseId: string; result: CanUseToolResponse; scope?: ApprovalScope } }
+  | { type: "runs.setLimit"; payload: { limit: number } }
+  | { type: "runs.cancel"; payload: { runId: string } }
+  | { type: "agents.list" }
+  | { type: "agents.create"; payload: { name: string; persona?: string; model?: string } }
+  | { type: "agents.clone"; payload: { agentId: string; name: string } }
+  | { type: "profiles.list" }
+  | { type: "models.list" }
+  | { type: "session.setModel"; payload: { sessionId: string; model: string } }
+  | { type: "usage.session"; payload: { sessionId: string } }
+  | { type: "usage.report" }
+  | { type: "usage.setPrices"; payload: { prices: PriceTable } }
+  | { type: "profiles.save"; payload: { profile: Omit<WorkspaceProfile, "updatedAt"> } }
+  | { type: "profiles.delete"; payload: { cwd: string } }
+  | { type: "prompts.enqueue"; payload: { sessionId: string; prompt: string; attachments?: PromptAttachment[] } }
+  | { type: "prompts.update"; payload: { sessionId: string; promptId: string; prompt: string } }
+  | { type: "prompts.remove"; payload: { sessionId: string; promptId: string } }
+  | { type: "prompts.reorder"; payload: { sessionId: string; promptIds: string[] } }
+  | { type: "prompts.history" }
+  | { type: "drafts.list" }
+  | { type: "drafts.save"; payload: { sessionId: string; text: string } }
+  | { type: "memory.list"; payload: { sessionId: string } }
+  | { type: "memory.update"; payload: { sessionId: string; label: string; value: string } }
+  | { type: "search.query"; payload: { query: string } };
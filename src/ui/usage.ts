@@ -0,0 +1,22 @@
+import type { UsageTotals } from "./types";
+
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Marked as a lower bound when some runs had no price
+export function formatCost(usage: UsageTotals): string {
+  if (usage.runs > 0 && usage.unpricedRuns === usage.runs) return "–";
+  const cost = usage.costUsd < 0.01 && usage.costUsd > 0 ? "<$0.01" : `$${usage.costUsd.toFixed(2)}`;
+  return usage.unpricedRuns > 0 ? `≥${cost}` : cost;
+}
@@ -0,0 +1,21 @@
+/**
+ * Which workspace profile applies to a directory: the closest one at or above it.
+ */
+
+import type { WorkspaceProfile } from "./types";
+
+function trimSeparators(path: string): string {
+  return path.trim().replace(/(?<=.)[\\/]+$/, "");
+}
+
+export function findWorkspaceProfile(profiles: WorkspaceProfile[], cwd: string | undefined): WorkspaceProfile | undefined {
+  if (!cwd?.trim()) return undefined;
+  const path = trimSeparators(cwd);
+  let match: WorkspaceProfile | undefined;
+  for (const profile of profiles) {
+    const root = trimSeparators(profile.cwd);
+    const contains = path === root || path.startsWith(`${root}/`) || path.startsWith(`${root}\\`);
+    if (contains && (!match || root.length > match.cwd.length)) match = profile;
+  }
+  return match;
+}
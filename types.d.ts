@@ -2,32 +2,100 @@ type Statistics = {
     cpuUsage: number;
     ramUsage: number;
     storageData: number;
+    processes: ProcessStatistics[];
+}
+
+// A Letta Code process spawned for a session's run; it can outlive the run
+type ProcessStatistics = {
+    pid: number;
+    // "pending" until the run's conversation exists
+    sessionId: string;
+    // Share of one CPU core; unset on the first sample and where the OS cannot tell
+    cpuUsage?: number;
+    rssBytes?: number;
+    openHandles?: number;
+    runtimeMs: number;
 }
 
 type StaticData = {
     totalStorage: number;
     cpuModel: string;
     totalMemoryGB: number;
+    // Letta Code processes using more memory than this are flagged
+    memoryWarningMB: number;
+}
+
+type RecentCwd = {
+    path: string;
+    lastUsedAt: number;
+    useCount: number;
 }
 
+// A reusable prompt; {{name}} placeholders are filled in when it is used
+type PromptTemplate = {
+    // The Markdown file it is stored in
+    path: string;
+    name: string;
+    description?: string;
+    body: string;
+    // "library" lives in app data, "workspace" in the working directory's .letta/templates
+    source: "library" | "workspace";
+}
+
+type PromptTemplateInput = Omit<PromptTemplate, "path"> & { path?: string };
+
 type UnsubscribeFunction = () => void;
 
+type ExportFormat = "markdown" | "json" | "html";
+
 type EventPayloadMapping = {
     statistics: Statistics;
     getStaticData: StaticData;
+    "start-statistics": void;
+    "stop-statistics": void;
+    "set-memory-warning": number;
     "generate-session-title": string;
-    "get-recent-cwds": string[];
+    "get-recent-cwds": RecentCwd[];
+    "remove-recent-cwd": void;
+    "list-workspace-files": string[];
     "select-directory": string | null;
+    // StreamMessage[]; typed in src/*/types.ts, which this global file cannot import
+    "get-session-messages": unknown[];
+    "export-session": string | null;
+    "import-transcript": string | null;
+    "list-templates": PromptTemplate[];
+    "save-template": PromptTemplate;
+    "delete-template": void;
+    "export-templates": string | null;
+    "import-templates": PromptTemplate[];
 }
 
 interface Window {
     electron: {
         subscribeStatistics: (callback: (statistics: Statistics) => void) => UnsubscribeFunction;
         getStaticData: () => Promise<StaticData>;
+        setMemoryWarning: (megabytes: number) => Promise<number>;
         // Letta Agent IPC APIs
         sendClientEvent: (event: any) => void;
         onServerEvent: (callback: (event: any) => void) => UnsubscribeFunction;
-        getRecentCwds: (limit?: number) => Promise<string[]>;
+        generateSessionTitle: (prompt: string, sessionId?: string) => Promise<string>;
+        getRecentCwds: (limit?: number) => Promise<RecentCwd[]>;
+        removeRecentCwd: (path: string) => Promise<void>;
+        // Files under the directory, relative to it, leaving out what .gitignore excludes
+        listWorkspaceFiles: (cwd: string) => Promise<string[]>;
+        // Where a dropped or pasted file is on disk; empty for in-memory files
+        getPathForFile: (file: File) => string;
         selectDirectory: () => Promise<string | null>;
+        getSessionMessages: (sessionId: string) => Promise<unknown[]>;
+        exportSession: (content: string, format: ExportFormat, defaultName: string) => Promise<string | null>;
+        importTranscript: () => Promise<string | null>;
+        listTemplates: (cwd?: string) => Promise<PromptTemplate[]>;
+        // Workspace templates are only written or deleted under cwd
+        saveTemplate: (template: PromptTemplateInput, cwd?: string) => Promise<PromptTemplate>;
+        deleteTemplate: (path: string, cwd?: string) => Promise<void>;
+        // Resolves to the written file, or null when the dialog was cancelled
+        exportTemplates: (paths: string[], cwd?: string) => Promise<string | null>;
+        // Adds the picked files' templates to the library
+        importTemplates: () => Promise<PromptTemplate[]>;
     }
 }